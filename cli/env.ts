@@ -0,0 +1,11 @@
+import type { ProxyConfig } from '../src/lib/ai-client';
+
+/**
+ * Supabase location from SUPABASE_URL / SUPABASE_ANON_KEY, falling back to the
+ * VITE_ names so the app's .env works unchanged.
+ */
+export function readProxyConfig(): ProxyConfig | null {
+  const supabaseUrl = process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL;
+  const supabaseAnonKey = process.env.SUPABASE_ANON_KEY ?? process.env.VITE_SUPABASE_ANON_KEY;
+  return supabaseUrl && supabaseAnonKey ? { supabaseUrl, supabaseAnonKey } : null;
+}
@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { CancelledError, type AITransport } from '../src/lib/ai-client';
+import type { HeartbeatResult } from '../src/lib/job-queue';
+import { InMemoryPlanStore } from '../src/lib/plan-store';
+import { DEFAULT_MODELS, singleProviderRouting } from '../src/lib/routing';
+import type { PlanningJob } from '../src/lib/supabase';
+import { runJob, type JobQueue } from './job-runner';
+
+function makeJob(projectId: string): PlanningJob {
+  const now = new Date().toISOString();
+  return {
+    id: 'job-1',
+    project_id: projectId,
+    status: 'running',
+    attempts: 1,
+    max_attempts: 3,
+    run_after: now,
+    worker_id: 'worker-1',
+    cancel_requested: false,
+    created_at: now,
+    updated_at: now
+  };
+}
+
+// Every call hangs until the run is aborted, like a slow provider
+const hangingTransport = (onCall: () => void): AITransport => (_messages, _provider, options) =>
+  new Promise((_resolve, reject) => {
+    onCall();
+    options?.signal?.addEventListener('abort', () => reject(new CancelledError()), { once: true });
+  });
+
+test('a run whose lease was lost stops without writing to the project', async () => {
+  const store = new InMemoryPlanStore();
+  const project = store.createProject({ name: 'Lease', description: 'A todo app' });
+
+  let inFlight = false;
+  let snapshot: string | null = null;
+  const finished: string[] = [];
+  const queue: JobQueue = {
+    async heartbeat(): Promise<HeartbeatResult> {
+      if (!inFlight) return 'ok';
+      // Another worker reclaimed the job and now owns these rows
+      snapshot ??= JSON.stringify({
+        project: store.projects.get(project.id),
+        runs: store.runs,
+        phases: store.phases
+      });
+      return 'lost';
+    },
+    complete: async () => void finished.push('complete'),
+    cancelled: async () => void finished.push('cancelled'),
+    release: async () => void finished.push('release'),
+    fail: async () => {
+      finished.push('fail');
+      return 'failed';
+    }
+  };
+
+  await runJob(
+    { queue, store, transport: hangingTransport(() => (inFlight = true)), heartbeatMs: 10 },
+    { stopping: false, current: null },
+    makeJob(project.id)
+  );
+
+  assert.ok(snapshot, 'the heartbeat reported the lease as lost');
+  const atLoss = JSON.parse(snapshot);
+  assert.equal(atLoss.project.status, 'planning');
+  assert.ok(atLoss.phases.every((p: { status: string }) => p.status === 'processing'));
+  assert.equal(
+    JSON.stringify({ project: store.projects.get(project.id), runs: store.runs, phases: store.phases }),
+    snapshot
+  );
+  assert.equal(store.llmCalls.length, 0);
+  assert.deepEqual(finished, []);
+});
+
+test('a job runs on the routing saved on its project', async () => {
+  const store = new InMemoryPlanStore();
+  const project = store.createProject({
+    name: 'Routing',
+    description: 'A todo app',
+    routing: singleProviderRouting('gemini')
+  });
+
+  const providers: string[] = [];
+  const transport: AITransport = (messages, provider, options) => {
+    providers.push(`${provider}/${options?.model}`);
+    return hangingTransport(() => undefined)(messages, provider, options);
+  };
+  const finished: string[] = [];
+  const queue: JobQueue = {
+    heartbeat: async () => (providers.length > 0 ? 'cancel' : 'ok'),
+    complete: async () => void finished.push('complete'),
+    cancelled: async () => void finished.push('cancelled'),
+    release: async () => void finished.push('release'),
+    fail: async () => {
+      finished.push('fail');
+      return 'failed';
+    }
+  };
+
+  await runJob({ queue, store, transport, heartbeatMs: 10 }, { stopping: false, current: null }, makeJob(project.id));
+
+  assert.ok(providers.length > 0);
+  assert.ok(providers.every((p) => p === `gemini/${DEFAULT_MODELS.gemini}`));
+  assert.deepEqual(finished, ['cancelled']);
+});
+
+test('a failed project read is recorded as a retryable attempt', async () => {
+  const store = new InMemoryPlanStore();
+  const project = store.createProject({ name: 'Flaky', description: 'A todo app' });
+  store.getProject = async () => {
+    throw new Error('connection reset');
+  };
+
+  const failures: Array<{ message: string; retryable: boolean }> = [];
+  const queue: JobQueue = {
+    heartbeat: async () => 'ok',
+    complete: async () => assert.fail('the job did not complete'),
+    cancelled: async () => assert.fail('the job was not cancelled'),
+    release: async () => assert.fail('the job was not released'),
+    fail: async (_job, message, retryable) => {
+      failures.push({ message, retryable });
+      return 'retry';
+    }
+  };
+  const state = { stopping: false, current: null };
+
+  await runJob({ queue, store, transport: hangingTransport(() => undefined), heartbeatMs: 10 }, state, makeJob(project.id));
+
+  assert.deepEqual(failures, [{ message: 'connection reset', retryable: true }]);
+  assert.equal(state.current, null);
+});
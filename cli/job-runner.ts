@@ -0,0 +1,134 @@
+import { AIProxyError, CancelledError, type AITransport } from '../src/lib/ai-client';
+import type { PlanningJobQueue } from '../src/lib/job-queue';
+import { AgentOrchestrator, BudgetExceededError } from '../src/lib/orchestrator';
+import type { PlanStore } from '../src/lib/plan-store';
+import {
+  applyEvent,
+  initialProgress,
+  type OrchestrationEvent
+} from '../src/lib/progress-events';
+import { DEFAULT_ROUTING } from '../src/lib/routing';
+import type { PlanningJob } from '../src/lib/supabase';
+import { createEventPrinter } from './output';
+
+// The queue operations a worker needs once it holds a job
+export type JobQueue = Pick<
+  PlanningJobQueue,
+  'heartbeat' | 'complete' | 'cancelled' | 'release' | 'fail'
+>;
+
+export type JobContext = {
+  queue: JobQueue;
+  store: PlanStore;
+  transport: AITransport;
+  heartbeatMs: number;
+  concurrency?: number;
+};
+
+/**
+ * The worker's process-wide state, shared with its signal handlers: whether
+ * it is shutting down, and the run to stop when it does.
+ */
+export type WorkerState = {
+  stopping: boolean;
+  current: AgentOrchestrator | null;
+};
+
+/**
+ * Run one claimed job to the end and record the outcome on the queue. The
+ * lease is renewed every `heartbeatMs`; if another worker reclaimed the job in
+ * the meantime, the run is abandoned without writing anything more, since the
+ * project now belongs to the new owner.
+ */
+export async function runJob(ctx: JobContext, state: WorkerState, job: PlanningJob): Promise<void> {
+  console.log(`\nClaimed job ${job.id} for project ${job.project_id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+  if (job.cancel_requested) {
+    await ctx.queue.cancelled(job);
+    await ctx.store.updateProject(job.project_id, { status: 'cancelled' });
+    return;
+  }
+
+  let leaseLost = false;
+  const print = createEventPrinter();
+  let progress = initialProgress();
+  // Snapshots are written in order; a failed write only loses that snapshot
+  let writes = Promise.resolve();
+  const publish = (event: OrchestrationEvent) => {
+    print(event);
+    if (leaseLost) return;
+    progress = applyEvent(progress, event);
+    const snapshot = progress;
+    writes = writes
+      .then(() => (leaseLost ? undefined : ctx.store.updateProject(job.project_id, { progress: snapshot })))
+      .catch((error) => console.warn(`Failed to write progress: ${error}`));
+  };
+
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let failure: unknown = null;
+  try {
+    // The routing the project was queued with; a missing project fails in resume()
+    const project = await ctx.store.getProject(job.project_id);
+    const routing = project?.routing ?? DEFAULT_ROUTING;
+
+    const orchestrator = new AgentOrchestrator(job.project_id, routing.default.provider, publish, {
+      store: ctx.store,
+      transport: ctx.transport,
+      routing,
+      concurrency: ctx.concurrency
+    });
+    state.current = orchestrator;
+
+    // Renews the lease and picks up cancellation requests from the browser
+    heartbeat = setInterval(async () => {
+      try {
+        const result = await ctx.queue.heartbeat(job);
+        if (result === 'cancel') orchestrator.cancel();
+        if (result === 'lost' && !leaseLost) {
+          console.warn(`Lost job ${job.id} to another worker; stopping`);
+          leaseLost = true;
+          orchestrator.abandon();
+        }
+      } catch (error) {
+        console.warn(`Heartbeat failed: ${error}`);
+      }
+    }, ctx.heartbeatMs);
+
+    // Resume covers fresh projects too: with no completed phases it runs everything
+    await orchestrator.resume();
+  } catch (error) {
+    failure = error;
+  } finally {
+    clearInterval(heartbeat);
+    state.current = null;
+    await writes;
+  }
+
+  // The job belongs to whoever reclaimed it now
+  if (leaseLost) return;
+
+  if (!failure) {
+    await ctx.queue.complete(job);
+    return;
+  }
+
+  if (failure instanceof CancelledError) {
+    if (state.stopping) {
+      // Stopped by shutdown rather than by the user: put it back for the next worker
+      await ctx.queue.release(job);
+      console.log(`Released job ${job.id}`);
+    } else {
+      await ctx.queue.cancelled(job);
+    }
+    return;
+  }
+
+  const message = failure instanceof Error ? failure.message : String(failure);
+  // Retrying can't help a run that hit its spend cap, or a call the provider
+  // will refuse again (bad credentials, bad request, content filter)
+  const retryable =
+    !(failure instanceof BudgetExceededError) &&
+    !(failure instanceof AIProxyError && !failure.retryable);
+  const outcome = await ctx.queue.fail(job, message, retryable);
+  console.error(`Run failed (${outcome === 'retry' ? 'will retry' : 'giving up'}): ${message}`);
+}
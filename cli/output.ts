@@ -0,0 +1,83 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { AGENT_PHASES } from '../src/lib/agents';
+import { loadLatestCompletedPhases, type PlanStore } from '../src/lib/plan-store';
+import { describeEvent, type OrchestrationEvent } from '../src/lib/progress-events';
+import { runQualityChecklist } from '../src/lib/quality-checklist';
+
+/**
+ * Print one line per event, stamped with the time since the run started,
+ * so the output reads well in CI logs.
+ */
+export function createEventPrinter(): (event: OrchestrationEvent) => void {
+  let start: number | null = null;
+
+  return (event) => {
+    // First attempts are implied by "started"; only retries are worth a line
+    if (event.type === 'phase_attempt' && event.attempt === 1) return;
+
+    const at = Date.parse(event.at);
+    if (event.type === 'run_started' || start === null) start = at;
+
+    const seconds = Math.round((at - start) / 1000);
+    const stamp = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+    console.log(`[${stamp.padStart(5)}] ${describeEvent(event)}`);
+  };
+}
+
+/**
+ * Write the plan as it stands to `outDir`:
+ *
+ *   project.json            project row incl. status and spend
+ *   phases/NN-<type>.json   latest completed output per phase
+ *   phases/NN-<type>.candidates.json   every best-of-N candidate with its score
+ *   checklist.json          quality checklist over those outputs
+ *   prompts/<tool>/NN-<slug>.md   formatted Bolt/Cursor prompts
+ *
+ * Safe to call after a failed run; only what was completed is written.
+ */
+export async function writePlan(store: PlanStore, projectId: string, outDir: string): Promise<void> {
+  const project = await store.getProject(projectId);
+  const phases = await loadLatestCompletedPhases(store, projectId);
+  const prompts = await store.listPrompts(projectId);
+
+  await mkdir(join(outDir, 'phases'), { recursive: true });
+  await writeJSON(join(outDir, 'project.json'), project);
+
+  for (const phase of phases) {
+    const index = AGENT_PHASES.findIndex((p) => p.type === phase.phase_type) + 1;
+    const base = join(outDir, 'phases', `${String(index).padStart(2, '0')}-${phase.phase_type}`);
+    await writeJSON(`${base}.json`, phase.output);
+    if (phase.candidates?.length) {
+      await writeJSON(`${base}.candidates.json`, phase.candidates);
+    }
+  }
+
+  if (phases.length > 0) {
+    await writeJSON(join(outDir, 'checklist.json'), runQualityChecklist(phases));
+  }
+
+  for (const prompt of prompts) {
+    const dir = join(outDir, 'prompts', prompt.tool);
+    await mkdir(dir, { recursive: true });
+    await writeFile(
+      join(dir, `${String(prompt.order + 1).padStart(2, '0')}-${slugify(prompt.title)}.md`),
+      prompt.content,
+      'utf8'
+    );
+  }
+}
+
+async function writeJSON(path: string, value: unknown): Promise<void> {
+  await writeFile(path, `${JSON.stringify(value, null, 2)}\n`, 'utf8');
+}
+
+function slugify(title: string): string {
+  return (
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'prompt'
+  );
+}
@@ -0,0 +1,312 @@
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { createClient } from '@supabase/supabase-js';
+import {
+  CancelledError,
+  createProxyTransport,
+  type AIProvider,
+  type AITransport,
+  type ModelFallback
+} from '../src/lib/ai-client';
+import { FileFixtureStore } from '../src/lib/fixture-store-fs';
+import { callMockProvider, configureMockProvider } from '../src/lib/mock-provider';
+import { AGENT_PHASES, type PhaseType } from '../src/lib/agents';
+import { AgentOrchestrator } from '../src/lib/orchestrator';
+import {
+  forkProject,
+  InMemoryPlanStore,
+  SupabasePlanStore,
+  type PlanStore
+} from '../src/lib/plan-store';
+import type { Decision } from '../src/lib/supabase';
+import { PROVIDER_NAMES } from '../src/lib/providers';
+import { DEFAULT_ROUTING } from '../src/lib/routing';
+import { readProxyConfig } from './env';
+import { createEventPrinter, writePlan } from './output';
+
+const USAGE = `Usage:
+  npm run plan -- --brief <file.json> --out <dir> [options]
+  npm run plan -- --resume <projectId> --out <dir> [options]
+  npm run plan -- --fork <projectId> --at <phase> --override <key=value> --out <dir> [options]
+
+Options:
+  --brief <file>        JSON brief: { name, description, competitorLinks?, competitorReviews?, budgetUsd? }
+  --resume <projectId>  Continue a failed, cancelled or reviewed run (needs Supabase)
+  --fork <projectId>    Branch a plan (needs Supabase): keep its phases up to --at,
+                        plan the rest with the --override decisions
+  --at <phase>          Last phase kept by --fork (e.g. system)
+  --override <k=v>      Decision Ledger override for --fork, repeatable;
+                        "key=value" or "key=value: reason"
+  --name <name>         Name of the branch (default: "<parent> (branch)")
+  --out <dir>           Where phase outputs, checklist.json and prompts are written
+  --provider <name>     openai | anthropic | gemini | mistral | openai-compatible |
+                        mock (default: per-phase routing)
+  --concurrency <n>     Phases run in parallel when dependencies allow (default 2)
+  --budget <usd>        Stop the run once spend reaches this amount
+  --samples <p=n,...>   Best-of-N: sample n candidates for phase p and keep the
+                        best, e.g. strategy=3,data=3
+  --fallback <list>     Providers (and models) to try in order when a call's
+                        provider keeps failing, e.g. anthropic,gemini:gemini-1.5-pro
+  --fixtures <dir>      Fixture directory for --provider mock
+  --record <provider>   With --provider mock: call this provider and save fixtures
+
+Environment:
+  SUPABASE_URL, SUPABASE_ANON_KEY (or the VITE_ names) select the Supabase
+  project for the ai-proxy function and for storing the plan. Without them the
+  plan is kept in memory and only mock replay runs are possible.`;
+
+type Brief = {
+  name: string;
+  description: string;
+  competitorLinks?: string[];
+  competitorReviews?: string[];
+  budgetUsd?: number;
+};
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      brief: { type: 'string' },
+      resume: { type: 'string' },
+      fork: { type: 'string' },
+      at: { type: 'string' },
+      override: { type: 'string', multiple: true },
+      name: { type: 'string' },
+      out: { type: 'string' },
+      provider: { type: 'string' },
+      concurrency: { type: 'string' },
+      budget: { type: 'string' },
+      samples: { type: 'string' },
+      fallback: { type: 'string' },
+      fixtures: { type: 'string' },
+      record: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (!values.out) throw new UsageError('--out is required');
+  if ([values.brief, values.resume, values.fork].filter(Boolean).length !== 1) {
+    throw new UsageError('Pass exactly one of --brief, --resume or --fork');
+  }
+  if (values.fork && (!values.at || !values.override?.length)) {
+    throw new UsageError('--fork needs --at <phase> and at least one --override');
+  }
+
+  const provider = parseProvider(values.provider);
+  const concurrency = parseNumber('--concurrency', values.concurrency);
+  const budgetUsd = parseNumber('--budget', values.budget);
+  const sampleCounts = parseSamples(values.samples);
+  const fallbacks = parseFallbacks(values.fallback);
+
+  if (provider === 'mock') {
+    if (!values.fixtures) throw new UsageError('--provider mock needs --fixtures <dir>');
+    const store = new FileFixtureStore(values.fixtures);
+    if (values.record) {
+      const upstream = parseProvider(values.record);
+      if (!upstream || upstream === 'mock') {
+        throw new UsageError('--record needs a real provider, not mock');
+      }
+      configureMockProvider({ mode: 'record', store, upstream: { provider: upstream } });
+    } else {
+      configureMockProvider({ mode: 'replay', store });
+    }
+  } else if (values.fixtures || values.record) {
+    throw new UsageError('--fixtures and --record only apply to --provider mock');
+  }
+
+  const proxy = readProxyConfig();
+  if (!proxy && (values.resume || values.fork)) {
+    throw new UsageError(
+      `${values.resume ? '--resume' : '--fork'} needs SUPABASE_URL and SUPABASE_ANON_KEY`
+    );
+  }
+
+  const store: PlanStore = proxy
+    ? new SupabasePlanStore(createClient(proxy.supabaseUrl, proxy.supabaseAnonKey))
+    : new InMemoryPlanStore();
+
+  let projectId = values.resume;
+  if (values.fork) {
+    const parent = await store.getProject(values.fork);
+    if (!parent) throw new UsageError(`Project not found: ${values.fork}`);
+    const branch = await forkProject(store, parent, {
+      name: values.name ?? `${parent.name} (branch)`,
+      forkPoint: parsePhase(values.at!),
+      decisionOverrides: (values.override ?? []).map(parseOverride)
+    });
+    projectId = branch.id;
+    console.log(`Branch of ${parent.id} after ${values.at}`);
+  } else if (!projectId) {
+    const brief = await readBrief(values.brief!);
+    const project = await store.insertProject({
+      name: brief.name,
+      description: brief.description,
+      competitor_links: brief.competitorLinks ?? [],
+      competitor_reviews: brief.competitorReviews ?? [],
+      budget_usd: brief.budgetUsd ?? null,
+      status: 'draft'
+    });
+    projectId = project.id;
+  }
+  console.log(`Project ${projectId}`);
+
+  const orchestrator = new AgentOrchestrator(
+    projectId,
+    provider ?? DEFAULT_ROUTING.default.provider,
+    createEventPrinter(),
+    {
+      store,
+      transport: proxy ? createProxyTransport(proxy) : offlineTransport,
+      // An explicit provider runs every phase on it; otherwise use the routing table
+      routing: provider ? undefined : DEFAULT_ROUTING,
+      concurrency,
+      budgetUsd,
+      sampling: sampleCounts ? { counts: sampleCounts } : undefined,
+      fallbacks
+    }
+  );
+
+  const onSigint = () => {
+    console.log('\nCancelling… (completed phases are kept)');
+    orchestrator.cancel();
+  };
+  process.once('SIGINT', onSigint);
+
+  let exitCode = 0;
+  try {
+    // A fork resumes: the copied phases are reused
+    await (values.brief ? orchestrator.runAllPhases() : orchestrator.resume());
+  } catch (error) {
+    exitCode = error instanceof CancelledError ? 130 : 1;
+  } finally {
+    process.off('SIGINT', onSigint);
+  }
+
+  await writePlan(store, projectId, values.out);
+  console.log(`Plan written to ${values.out}`);
+
+  const project = await store.getProject(projectId);
+  if (project?.status === 'awaiting_approval') {
+    console.log('Paused at an approval gate; approve or reject the phase in the app, then resume');
+  }
+
+  if (exitCode !== 0 && proxy) {
+    console.log(`Resume with: npm run plan -- --resume ${projectId} --out ${values.out}`);
+  }
+  return exitCode;
+}
+
+/**
+ * Without a proxy only the mock provider can answer, and only from fixtures.
+ */
+const offlineTransport: AITransport = (messages, provider, options) => {
+  const noProxy = () =>
+    Promise.reject(new Error('No Supabase proxy configured; set SUPABASE_URL and SUPABASE_ANON_KEY'));
+  if (provider !== 'mock') return noProxy();
+  return callMockProvider(messages, options?.phase, noProxy);
+};
+
+async function readBrief(path: string): Promise<Brief> {
+  const brief = JSON.parse(await readFile(path, 'utf8')) as Partial<Brief>;
+
+  if (typeof brief.name !== 'string' || !brief.name.trim()) {
+    throw new UsageError(`${path}: "name" is required`);
+  }
+  if (typeof brief.description !== 'string' || !brief.description.trim()) {
+    throw new UsageError(`${path}: "description" is required`);
+  }
+  for (const key of ['competitorLinks', 'competitorReviews'] as const) {
+    const list = brief[key];
+    if (list !== undefined && !(Array.isArray(list) && list.every((v) => typeof v === 'string'))) {
+      throw new UsageError(`${path}: "${key}" must be an array of strings`);
+    }
+  }
+
+  return brief as Brief;
+}
+
+function parseProvider(value: string | undefined): AIProvider | undefined {
+  if (value === undefined) return undefined;
+  if (!PROVIDER_NAMES.includes(value as AIProvider)) {
+    throw new UsageError(`Unknown provider "${value}" (expected ${PROVIDER_NAMES.join(', ')})`);
+  }
+  return value as AIProvider;
+}
+
+function parsePhase(value: string): PhaseType {
+  if (!AGENT_PHASES.some((p) => p.type === value)) {
+    throw new UsageError(
+      `Unknown phase "${value}" (expected ${AGENT_PHASES.map((p) => p.type).join(', ')})`
+    );
+  }
+  return value as PhaseType;
+}
+
+function parseOverride(value: string): Decision {
+  const match = value.match(/^([^=]+)=([^:]*)(?::(.*))?$/);
+  if (!match || !match[1].trim() || !match[2].trim()) {
+    throw new UsageError(`--override must be "key=value" or "key=value: reason", got "${value}"`);
+  }
+  return {
+    key: match[1].trim(),
+    value: match[2].trim(),
+    reason: match[3]?.trim() || 'Set when forking the plan'
+  };
+}
+
+function parseSamples(value: string | undefined): Partial<Record<PhaseType, number>> | undefined {
+  if (value === undefined) return undefined;
+  const counts: Partial<Record<PhaseType, number>> = {};
+  for (const entry of value.split(',')) {
+    const [phase, n] = entry.split('=');
+    const count = Number(n);
+    if (!Number.isInteger(count) || count < 1) {
+      throw new UsageError(`--samples entries must be phase=n with n >= 1, got "${entry}"`);
+    }
+    counts[parsePhase(phase.trim())] = count;
+  }
+  return counts;
+}
+
+function parseFallbacks(value: string | undefined): ModelFallback[] | undefined {
+  if (value === undefined) return undefined;
+  return value.split(',').map((entry) => {
+    const [name, model] = entry.split(':').map((part) => part.trim());
+    const provider = parseProvider(name)!;
+    if (provider === 'mock') throw new UsageError('--fallback entries need a real provider');
+    return model ? { provider, model } : { provider };
+  });
+}
+
+function parseNumber(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) {
+    throw new UsageError(`${flag} must be a positive number`);
+  }
+  return n;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exit(2);
+    }
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
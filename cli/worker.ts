@@ -0,0 +1,134 @@
+import { randomUUID } from 'node:crypto';
+import { hostname } from 'node:os';
+import { parseArgs } from 'node:util';
+import { createClient } from '@supabase/supabase-js';
+import { createProxyTransport } from '../src/lib/ai-client';
+import { PlanningJobQueue } from '../src/lib/job-queue';
+import { SupabasePlanStore } from '../src/lib/plan-store';
+import { readProxyConfig } from './env';
+import { runJob, type JobContext, type WorkerState } from './job-runner';
+
+const USAGE = `Usage:
+  npm run worker -- [--poll <seconds>] [--heartbeat <seconds>] [--stale <seconds>]
+                    [--concurrency <n>] [--once]
+
+Claims jobs from planning_jobs one at a time, runs the orchestrator and writes
+progress to projects.progress for the browser to follow.
+
+Options:
+  --poll <seconds>       How often to check an empty queue (default 5)
+  --heartbeat <seconds>  How often a running job's lease is renewed (default 15)
+  --stale <seconds>      Reclaim running jobs and processing phases whose
+                         heartbeat is older than this (default 120)
+  --concurrency <n>      Phases run in parallel within a project (default 2)
+  --once                 Exit when the queue is empty instead of waiting for more work
+
+Environment:
+  SUPABASE_URL, SUPABASE_ANON_KEY (or the VITE_ names)`;
+
+type WorkerContext = JobContext & {
+  workerId: string;
+  queue: PlanningJobQueue;
+  pollMs: number;
+  staleSeconds: number;
+};
+
+// Longest wait between attempts while the database keeps failing
+const MAX_BACKOFF_MS = 60_000;
+
+const state: WorkerState = { stopping: false, current: null };
+let wake: (() => void) | null = null;
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      poll: { type: 'string' },
+      heartbeat: { type: 'string' },
+      stale: { type: 'string' },
+      concurrency: { type: 'string' },
+      once: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const proxy = readProxyConfig();
+  if (!proxy) {
+    console.error(`SUPABASE_URL and SUPABASE_ANON_KEY are required\n\n${USAGE}`);
+    return 2;
+  }
+
+  const client = createClient(proxy.supabaseUrl, proxy.supabaseAnonKey);
+  const ctx: WorkerContext = {
+    workerId: `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`,
+    queue: new PlanningJobQueue(client),
+    store: new SupabasePlanStore(client),
+    transport: createProxyTransport(proxy),
+    pollMs: Number(values.poll ?? 5) * 1000,
+    heartbeatMs: Number(values.heartbeat ?? 15) * 1000,
+    staleSeconds: Number(values.stale ?? 120),
+    concurrency: values.concurrency ? Number(values.concurrency) : undefined
+  };
+
+  if (ctx.heartbeatMs / 1000 >= ctx.staleSeconds) {
+    console.error('--heartbeat must be shorter than --stale');
+    return 2;
+  }
+
+  const shutdown = () => {
+    console.log('\nStopping worker…');
+    state.stopping = true;
+    state.current?.cancel();
+    wake?.();
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  console.log(`Planning worker ${ctx.workerId} polling every ${ctx.pollMs / 1000}s`);
+
+  // A database or network error backs off and tries again instead of stopping
+  // the worker; a job it interrupted is reclaimed once its lease goes stale
+  let errors = 0;
+  while (!state.stopping) {
+    try {
+      const job = await ctx.queue.claim(ctx.workerId, ctx.staleSeconds);
+      errors = 0;
+      if (job) {
+        await runJob(ctx, state, job);
+        continue;
+      }
+    } catch (error) {
+      errors++;
+      const delayMs = Math.min(ctx.pollMs * 2 ** (errors - 1), MAX_BACKOFF_MS);
+      console.error(`Worker error (retrying in ${delayMs / 1000}s): ${error instanceof Error ? error.message : error}`);
+      await idle(delayMs);
+      continue;
+    }
+    if (values.once) break;
+    await idle(ctx.pollMs);
+  }
+
+  return 0;
+}
+
+function idle(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    wake = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
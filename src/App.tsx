@@ -1,23 +1,61 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { ApprovalReview } from './components/ApprovalReview';
 import { ProjectForm } from './components/ProjectForm';
 import { PlanningProgress } from './components/PlanningProgress';
 import { PlanResults } from './components/PlanResults';
 import { supabase } from './lib/supabase';
-import { AgentOrchestrator, type OrchestrationProgress } from './lib/orchestrator';
+import { initialProgress, type OrchestrationProgress } from './lib/progress-events';
+import type { RoutingConfig } from './lib/routing';
+import {
+  ACTIVE_PROJECT_KEY,
+  progressFromProject,
+  queuePlanning,
+  requestCancel,
+  watchProject
+} from './lib/remote-planning';
 
 type AppState = 'form' | 'planning' | 'results';
 
 function App() {
-  const [state, setState] = useState<AppState>('form');
-  const [projectId, setProjectId] = useState<string | null>(null);
+  // Runs happen in the planning worker; the tab only follows them, so a
+  // reload picks the active project back up
+  const [projectId, setProjectId] = useState<string | null>(() =>
+    localStorage.getItem(ACTIVE_PROJECT_KEY)
+  );
+  const [state, setState] = useState<AppState>(projectId ? 'planning' : 'form');
   const [projectName, setProjectName] = useState<string>('');
-  const [progress, setProgress] = useState<OrchestrationProgress>({
-    currentPhase: '',
-    completedPhases: [],
-    totalPhases: 12
-  });
+  const [progress, setProgress] = useState<OrchestrationProgress>(initialProgress);
+  const [awaitingApproval, setAwaitingApproval] = useState(false);
+
+  useEffect(() => {
+    if (!projectId || state !== 'planning') return;
+
+    return watchProject(projectId, (project) => {
+      if (!project) {
+        handleStartNew();
+        return;
+      }
+      setProjectName(project.name);
+      if (project.status === 'completed') {
+        setState('results');
+        return;
+      }
+      setAwaitingApproval(project.status === 'awaiting_approval');
+      setProgress(progressFromProject(project));
+    });
+  }, [projectId, state]);
 
-  const handleProjectSubmit = async (name: string, description: string, competitorLinks: string[], competitorReviews: string[]) => {
+  const handleProjectSubmit = async (
+    name: string,
+    description: string,
+    competitorLinks: string[],
+    competitorReviews: string[],
+    budgetUsd: number | null,
+    approvalPhases: string[] | null,
+    sampleCounts: Record<string, number> | null,
+    fallbackChain: Array<{ provider: string; model?: string }> | null,
+    routing: RoutingConfig | null
+  ) => {
     setState('planning');
     setProjectName(name);
 
@@ -29,6 +67,11 @@ function App() {
           description,
           competitor_links: competitorLinks,
           competitor_reviews: competitorReviews,
+          budget_usd: budgetUsd,
+          approval_phases: approvalPhases,
+          sample_counts: sampleCounts,
+          fallback_chain: fallbackChain,
+          routing,
           status: 'draft'
         })
         .select()
@@ -38,20 +81,36 @@ function App() {
         throw new Error('Failed to create project');
       }
 
+      await queuePlanning(project.id);
+
+      localStorage.setItem(ACTIVE_PROJECT_KEY, project.id);
       setProjectId(project.id);
+    } catch (error) {
+      console.error('Planning error:', error);
+      setProgress((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'An unknown error occurred'
+      }));
+    }
+  };
 
-      const orchestrator = new AgentOrchestrator(
-        project.id,
-        'openai',
-        (newProgress) => {
-          setProgress(newProgress);
-        }
-      );
+  const handleCancel = async () => {
+    if (!projectId) return;
 
-      await orchestrator.runAllPhases();
-      setState('results');
+    try {
+      await requestCancel(projectId);
     } catch (error) {
-      console.error('Planning error:', error);
+      console.error('Cancel error:', error);
+    }
+  };
+
+  const handleResume = async () => {
+    if (!projectId) return;
+
+    try {
+      await queuePlanning(projectId);
+    } catch (error) {
+      console.error('Resume error:', error);
       setProgress((prev) => ({
         ...prev,
         error: error instanceof Error ? error.message : 'An unknown error occurred'
@@ -59,15 +118,33 @@ function App() {
     }
   };
 
+  const handleRegenerate = async () => {
+    if (!projectId) return;
+
+    try {
+      await queuePlanning(projectId);
+      setState('planning');
+    } catch (error) {
+      console.error('Regenerate error:', error);
+    }
+  };
+
+  const handleOpenProject = (id: string) => {
+    localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+    setProjectId(id);
+    setProjectName('');
+    setAwaitingApproval(false);
+    setProgress(initialProgress());
+    setState('planning');
+  };
+
   const handleStartNew = () => {
+    localStorage.removeItem(ACTIVE_PROJECT_KEY);
     setState('form');
     setProjectId(null);
     setProjectName('');
-    setProgress({
-      currentPhase: '',
-      completedPhases: [],
-      totalPhases: 12
-    });
+    setAwaitingApproval(false);
+    setProgress(initialProgress());
   };
 
   return (
@@ -77,11 +154,27 @@ function App() {
           <ProjectForm onSubmit={handleProjectSubmit} isLoading={false} />
         )}
 
-        {state === 'planning' && <PlanningProgress progress={progress} />}
+        {state === 'planning' && awaitingApproval && projectId && (
+          <ApprovalReview key={progress.awaitingApproval.join(',')} projectId={projectId} />
+        )}
+
+        {state === 'planning' && (
+          <PlanningProgress
+            progress={progress}
+            onResume={projectId ? handleResume : undefined}
+            onCancel={handleCancel}
+          />
+        )}
 
         {state === 'results' && projectId && (
           <div className="space-y-6">
-            <PlanResults projectId={projectId} projectName={projectName} />
+            <PlanResults
+              projectId={projectId}
+              projectName={projectName}
+              onRegenerate={handleRegenerate}
+              onOpenProject={handleOpenProject}
+              onChangeRequested={() => setState('planning')}
+            />
             <div className="text-center">
               <button
                 onClick={handleStartNew}
@@ -0,0 +1,175 @@
+import { useState, useEffect } from 'react';
+import { Check, PauseCircle, Pencil, ThumbsDown } from 'lucide-react';
+import { phaseName } from '../lib/progress-events';
+import { approvePhase, rejectPhase } from '../lib/remote-planning';
+import { supabase, type PlanningPhase } from '../lib/supabase';
+
+type ApprovalReviewProps = {
+  projectId: string;
+};
+
+/**
+ * Review panel for phases held at an approval gate. Approving (as generated
+ * or edited) or rejecting a phase queues the run again.
+ */
+export function ApprovalReview({ projectId }: ApprovalReviewProps) {
+  const [phases, setPhases] = useState<PlanningPhase[]>([]);
+
+  useEffect(() => {
+    loadAwaiting();
+  }, [projectId]);
+
+  const loadAwaiting = async () => {
+    const { data } = await supabase
+      .from('planning_phases')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('status', 'awaiting_approval')
+      .order('created_at', { ascending: true });
+
+    if (data) setPhases(data);
+  };
+
+  if (phases.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-3xl mx-auto mb-6 space-y-4">
+      {phases.map((phase) => (
+        <PhaseReview key={phase.id} phase={phase} onDecided={loadAwaiting} />
+      ))}
+    </div>
+  );
+}
+
+function PhaseReview({ phase, onDecided }: { phase: PlanningPhase; onDecided: () => void }) {
+  const original = JSON.stringify(phase.output, null, 2);
+  const [draft, setDraft] = useState(original);
+  const [editing, setEditing] = useState(false);
+  const [rejecting, setRejecting] = useState(false);
+  const [feedback, setFeedback] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const decide = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      onDecided();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the review');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleApprove = () =>
+    decide(async () => {
+      if (!editing || draft === original) {
+        await approvePhase(phase);
+        return;
+      }
+
+      let edited: unknown;
+      try {
+        edited = JSON.parse(draft);
+      } catch (err) {
+        throw new Error(`Edited output is not valid JSON: ${err instanceof Error ? err.message : err}`);
+      }
+      await approvePhase(phase, edited);
+    });
+
+  const handleReject = () => decide(() => rejectPhase(phase, feedback.trim()));
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border-2 border-amber-200 p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <PauseCircle className="w-5 h-5 text-amber-500" />
+            Review {phaseName(phase.phase_type)}
+          </h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Planning is paused until this phase is approved or rejected.
+          </p>
+        </div>
+        {!editing && (
+          <button
+            onClick={() => setEditing(true)}
+            className="flex-shrink-0 flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 rounded-lg border-2 border-gray-300 hover:border-blue-500 hover:text-blue-600 transition-all"
+          >
+            <Pencil className="w-4 h-4" />
+            Edit
+          </button>
+        )}
+      </div>
+
+      {editing ? (
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          spellCheck={false}
+          rows={16}
+          className="w-full px-4 py-3 font-mono text-xs border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      ) : (
+        <pre className="bg-gray-50 rounded-lg p-4 text-xs overflow-auto max-h-96 border border-gray-200">
+          {original}
+        </pre>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-600 break-words">{error}</p>}
+
+      {rejecting && (
+        <textarea
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          placeholder="What should change? The phase re-runs with this feedback."
+          rows={3}
+          className="mt-4 w-full px-4 py-3 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      )}
+
+      <div className="mt-4 flex items-center justify-end gap-3">
+        {rejecting ? (
+          <>
+            <button
+              onClick={() => setRejecting(false)}
+              disabled={busy}
+              className="px-4 py-2 text-sm font-medium text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              Back
+            </button>
+            <button
+              onClick={handleReject}
+              disabled={busy || !feedback.trim()}
+              className="flex items-center gap-2 px-4 py-2 bg-red-500 text-white text-sm font-medium rounded-lg hover:bg-red-600 disabled:opacity-50 transition-colors"
+            >
+              <ThumbsDown className="w-4 h-4" />
+              Reject and Re-run
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={() => setRejecting(true)}
+              disabled={busy}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 rounded-lg border-2 border-gray-300 hover:border-red-400 hover:text-red-600 transition-all"
+            >
+              <ThumbsDown className="w-4 h-4" />
+              Reject
+            </button>
+            <button
+              onClick={handleApprove}
+              disabled={busy}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+            >
+              <Check className="w-4 h-4" />
+              {editing && draft !== original ? 'Save & Approve' : 'Approve'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+import { useState, useEffect } from 'react';
+import { ArrowUpRight, GitBranch, GitCompare, GitFork, Plus, X } from 'lucide-react';
+import { AGENT_PHASES, type PhaseType } from '../lib/agents';
+import { diffPlans } from '../lib/json-diff';
+import { phaseName } from '../lib/progress-events';
+import { createBranch, listBranches } from '../lib/remote-planning';
+import { supabase, type Decision, type PlanningPhase, type Project } from '../lib/supabase';
+import { PhaseDiffList } from './PlanDiff';
+
+type BranchesProps = {
+  projectId: string;
+  // Current version of each phase of the project
+  phases: PlanningPhase[];
+  // Switch the app to another project (a branch or the parent)
+  onOpenProject: (projectId: string) => void;
+};
+
+const emptyOverride = (): Decision => ({ key: '', value: '', reason: '' });
+
+/**
+ * Branches of a project: fork the plan at a phase with Decision Ledger
+ * overrides, and compare each branch's plan with this one.
+ */
+export function Branches({ projectId, phases, onOpenProject }: BranchesProps) {
+  const [project, setProject] = useState<Project | null>(null);
+  const [parent, setParent] = useState<Project | null>(null);
+  const [branches, setBranches] = useState<Project[]>([]);
+  const [forking, setForking] = useState(false);
+  const [name, setName] = useState('');
+  const [forkPoint, setForkPoint] = useState<PhaseType>('strategy');
+  const [overrides, setOverrides] = useState<Decision[]>([emptyOverride()]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const [branchPhases, setBranchPhases] = useState<PlanningPhase[]>([]);
+
+  useEffect(() => {
+    loadBranches();
+  }, [projectId]);
+
+  const loadBranches = async () => {
+    const { data } = await supabase.from('projects').select('*').eq('id', projectId).maybeSingle();
+    setProject(data);
+
+    if (data?.parent_project_id) {
+      const { data: parentData } = await supabase
+        .from('projects')
+        .select('*')
+        .eq('id', data.parent_project_id)
+        .maybeSingle();
+      setParent(parentData);
+    } else {
+      setParent(null);
+    }
+
+    setBranches(await listBranches(projectId));
+  };
+
+  // Decisions the plan made so far, to pick override keys from
+  const ledger = new Map<string, Decision>();
+  for (const phase of phases) {
+    for (const d of phase.output?.decisions ?? []) {
+      if (d?.key) ledger.set(d.key, d);
+    }
+  }
+
+  const forkablePhases = AGENT_PHASES.filter((p) =>
+    phases.some((row) => row.phase_type === p.type && row.status === 'completed')
+  );
+
+  const updateOverride = (index: number, patch: Partial<Decision>) =>
+    setOverrides((prev) => prev.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+
+  const handleFork = async () => {
+    if (!project) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const branch = await createBranch(project, {
+        name: name.trim() || `${project.name} (branch)`,
+        forkPoint,
+        decisionOverrides: overrides.map((d) => ({
+          key: d.key.trim(),
+          value: d.value.trim(),
+          reason: d.reason.trim() || 'Set when forking the plan'
+        }))
+      });
+      onOpenProject(branch.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create the branch');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleCompare = async (branchId: string) => {
+    if (comparingId === branchId) {
+      setComparingId(null);
+      return;
+    }
+
+    const { data } = await supabase
+      .from('planning_phases')
+      .select('*')
+      .eq('project_id', branchId)
+      .eq('is_current', true);
+    setBranchPhases(data ?? []);
+    setComparingId(branchId);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+          <GitBranch className="w-5 h-5" />
+          Branches
+        </h3>
+        {!forking && forkablePhases.length > 0 && (
+          <button
+            onClick={() => setForking(true)}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            <GitFork className="w-4 h-4" />
+            Fork Plan
+          </button>
+        )}
+      </div>
+
+      {parent && project && (
+        <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900 flex items-center gap-3">
+          <span className="flex-1">
+            Forked from <strong>{parent.name}</strong> after{' '}
+            {phaseName(project.fork_point ?? '')}, overriding{' '}
+            {(project.decision_overrides ?? []).map((d) => `${d.key} = ${d.value}`).join(', ')}
+          </span>
+          <button
+            onClick={() => onOpenProject(parent.id)}
+            className="flex items-center gap-1 text-blue-700 hover:text-blue-900"
+          >
+            Open parent
+            <ArrowUpRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {forking && (
+        <div className="mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+          <div className="grid md:grid-cols-2 gap-3">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Branch name"
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+              value={forkPoint}
+              onChange={(e) => setForkPoint(e.target.value as PhaseType)}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {forkablePhases.map((p) => (
+                <option key={p.type} value={p.type}>
+                  Keep everything up to {p.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Phases after the fork point are planned again with these Decision Ledger overrides.
+          </p>
+          <datalist id="decision-keys">
+            {[...ledger.keys()].map((key) => (
+              <option key={key} value={key} />
+            ))}
+          </datalist>
+          {overrides.map((override, i) => (
+            <div key={i} className="grid grid-cols-[1fr_1fr_2fr_auto] gap-2">
+              <input
+                value={override.key}
+                list="decision-keys"
+                onChange={(e) => updateOverride(i, { key: e.target.value })}
+                placeholder="Key, e.g. auth.choice"
+                className="px-3 py-2 text-sm font-mono border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input
+                value={override.value}
+                onChange={(e) => updateOverride(i, { value: e.target.value })}
+                placeholder={ledger.get(override.key)?.value ?? 'New value'}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input
+                value={override.reason}
+                onChange={(e) => updateOverride(i, { reason: e.target.value })}
+                placeholder="Reason"
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={() => setOverrides((prev) => prev.filter((_, j) => j !== i))}
+                disabled={overrides.length === 1}
+                className="p-2 text-gray-500 hover:text-red-600 disabled:opacity-30"
+                title="Remove override"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setOverrides((prev) => [...prev, emptyOverride()])}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+          >
+            <Plus className="w-4 h-4" />
+            Add override
+          </button>
+
+          {error && <p className="text-sm text-red-600 break-words">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setForking(false)}
+              disabled={busy}
+              className="px-4 py-2 text-sm text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleFork}
+              disabled={busy}
+              className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-colors"
+            >
+              <GitFork className="w-4 h-4" />
+              Create Branch
+            </button>
+          </div>
+        </div>
+      )}
+
+      {branches.length === 0 ? (
+        <p className="text-sm text-gray-500">No branches of this plan yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {branches.map((branch) => (
+            <div key={branch.id} className="border border-gray-200 rounded-lg">
+              <div className="flex items-center gap-3 p-3 text-sm">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900">{branch.name}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    After {phaseName(branch.fork_point ?? '')} ·{' '}
+                    {(branch.decision_overrides ?? []).map((d) => `${d.key} = ${d.value}`).join(', ')}{' '}
+                    · {branch.status}
+                  </p>
+                </div>
+                <button
+                  onClick={() => toggleCompare(branch.id)}
+                  className={`flex items-center gap-1 px-3 py-1.5 rounded-lg border transition-colors ${
+                    comparingId === branch.id
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-300 text-gray-700 hover:border-blue-500 hover:text-blue-600'
+                  }`}
+                >
+                  <GitCompare className="w-4 h-4" />
+                  Compare
+                </button>
+                <button
+                  onClick={() => onOpenProject(branch.id)}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-gray-300 text-gray-700 hover:border-blue-500 hover:text-blue-600 transition-colors"
+                >
+                  Open
+                  <ArrowUpRight className="w-4 h-4" />
+                </button>
+              </div>
+              {comparingId === branch.id && (
+                <div className="p-3 border-t border-gray-200">
+                  <PhaseDiffList diffs={diffPlans(phases, branchPhases)} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
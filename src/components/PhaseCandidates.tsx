@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Trophy } from 'lucide-react';
+import type { PhaseCandidate } from '../lib/supabase';
+
+/**
+ * Every candidate sampled for a best-of-N phase, best first, with its score
+ * breakdown; each one expands to its raw output.
+ */
+export function PhaseCandidates({ candidates }: { candidates: PhaseCandidate[] }) {
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const ranked = [...candidates].sort(
+    (a, b) => (b.score?.total ?? -Infinity) - (a.score?.total ?? -Infinity)
+  );
+
+  return (
+    <div className="space-y-2">
+      {ranked.map((candidate) => {
+        const isExpanded = expanded === candidate.index;
+        const score = candidate.score;
+        return (
+          <div
+            key={candidate.index}
+            className={`rounded-lg border bg-white ${
+              candidate.selected ? 'border-green-300' : 'border-gray-200'
+            }`}
+          >
+            <button
+              onClick={() => setExpanded(isExpanded ? null : candidate.index)}
+              className="w-full flex items-center gap-3 p-3 text-left text-sm hover:bg-gray-50"
+            >
+              {isExpanded ? (
+                <ChevronDown className="w-4 h-4 text-gray-500" />
+              ) : (
+                <ChevronRight className="w-4 h-4 text-gray-500" />
+              )}
+              <span className="font-medium text-gray-900">Candidate {candidate.index + 1}</span>
+              {candidate.selected && (
+                <span className="flex items-center gap-1 px-2 py-0.5 text-xs font-medium rounded bg-green-100 text-green-800">
+                  <Trophy className="w-3 h-3" />
+                  Selected
+                </span>
+              )}
+              <span className="flex-1 text-right text-xs text-gray-500">
+                {candidate.error
+                  ? 'call failed'
+                  : candidate.parseError
+                  ? 'unparseable'
+                  : score?.total == null
+                  ? `invalid (${score?.schemaErrors.length ?? 0} schema errors)`
+                  : `score ${score.total.toFixed(1)} · scorer ${score.custom.toFixed(1)} · ${
+                      score.checklistFailures.length
+                    } checklist ${score.checklistFailures.length === 1 ? 'fix' : 'fixes'}`}
+              </span>
+            </button>
+            {isExpanded && (
+              <div className="p-3 border-t border-gray-200 space-y-2">
+                {(candidate.error || candidate.parseError) && (
+                  <p className="text-xs text-red-600 break-words">
+                    {candidate.error ?? candidate.parseError}
+                  </p>
+                )}
+                {[...(score?.schemaErrors ?? []), ...(score?.checklistFailures ?? [])].map((issue, i) => (
+                  <p key={i} className="text-xs text-amber-700 break-words">
+                    • {issue}
+                  </p>
+                ))}
+                {candidate.output != null && (
+                  <pre className="p-3 rounded bg-gray-50 border border-gray-200 overflow-x-auto text-xs">
+                    <code>{JSON.stringify(candidate.output, null, 2)}</code>
+                  </pre>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
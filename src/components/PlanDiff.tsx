@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, GitCompare } from 'lucide-react';
+import { diffPlans, planAfterRun, type DiffEntry, type PhaseDiff } from '../lib/json-diff';
+import { phaseName } from '../lib/progress-events';
+import type { PlanningPhase, PlanningRun } from '../lib/supabase';
+
+/**
+ * Added, removed and changed paths, grouped by the top-level field they sit
+ * under (features, entities, endpoints, prompts, ...).
+ */
+export function DiffList({ entries }: { entries: DiffEntry[] }) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500">No differences.</p>;
+  }
+
+  const sections = new Map<string, DiffEntry[]>();
+  for (const entry of entries) {
+    const section = entry.path.split(/[.[]/)[0];
+    sections.set(section, [...(sections.get(section) ?? []), entry]);
+  }
+
+  return (
+    <div className="space-y-4">
+      {[...sections].map(([section, sectionEntries]) => (
+        <div key={section}>
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+            {section}
+          </h4>
+          <ul className="space-y-1.5">
+            {sectionEntries.map((entry, i) => (
+              <li
+                key={`${entry.path}-${i}`}
+                className={`p-2 rounded border text-xs ${
+                  entry.kind === 'added'
+                    ? 'border-green-200 bg-green-50'
+                    : entry.kind === 'removed'
+                    ? 'border-red-200 bg-red-50'
+                    : 'border-amber-200 bg-amber-50'
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <span
+                    className={`px-1.5 py-0.5 rounded font-semibold ${
+                      entry.kind === 'added'
+                        ? 'bg-green-200 text-green-800'
+                        : entry.kind === 'removed'
+                        ? 'bg-red-200 text-red-800'
+                        : 'bg-amber-200 text-amber-800'
+                    }`}
+                  >
+                    {entry.kind === 'added' ? '+' : entry.kind === 'removed' ? '−' : '~'}
+                  </span>
+                  <code className="font-mono text-gray-800 break-all">{entry.path}</code>
+                </div>
+                {entry.kind !== 'added' && (
+                  <pre className="mt-1 pl-7 whitespace-pre-wrap break-words text-red-700">
+                    {preview(entry.before)}
+                  </pre>
+                )}
+                {entry.kind !== 'removed' && (
+                  <pre className="mt-1 pl-7 whitespace-pre-wrap break-words text-green-700">
+                    {preview(entry.after)}
+                  </pre>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+type RunDiffProps = {
+  // Every versioned phase row of the project
+  versions: PlanningPhase[];
+  runs: PlanningRun[];
+};
+
+/**
+ * The whole plan compared between two runs, phase by phase.
+ */
+export function RunDiff({ versions, runs }: RunDiffProps) {
+  const [fromId, setFromId] = useState(runs[0]?.id ?? '');
+  const [toId, setToId] = useState(runs[runs.length - 1]?.id ?? '');
+
+  const from = runs.find((r) => r.id === fromId);
+  const to = runs.find((r) => r.id === toId);
+  const diffs = from && to ? diffPlans(planAfterRun(versions, from), planAfterRun(versions, to)) : [];
+
+  const runLabel = (run: PlanningRun, index: number) =>
+    `Run ${index + 1} · ${run.kind} · ${run.status} · ${new Date(run.started_at).toLocaleString()}`;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6">
+      <h3 className="text-xl font-bold text-gray-900 flex items-center gap-2 mb-4">
+        <GitCompare className="w-5 h-5" />
+        Compare Runs
+      </h3>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+        <select
+          value={fromId}
+          onChange={(e) => setFromId(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {runs.map((run, i) => (
+            <option key={run.id} value={run.id}>
+              {runLabel(run, i)}
+            </option>
+          ))}
+        </select>
+        <span className="text-gray-500">→</span>
+        <select
+          value={toId}
+          onChange={(e) => setToId(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {runs.map((run, i) => (
+            <option key={run.id} value={run.id}>
+              {runLabel(run, i)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <PhaseDiffList diffs={diffs} />
+    </div>
+  );
+}
+
+/**
+ * One collapsible row per phase of a plan diff, with its change count.
+ */
+export function PhaseDiffList({ diffs }: { diffs: PhaseDiff[] }) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-2">
+      {diffs.map((diff) => {
+        const isExpanded = expanded === diff.phase;
+        return (
+          <div key={diff.phase} className="border border-gray-200 rounded-lg">
+            <button
+              onClick={() => setExpanded(isExpanded ? null : diff.phase)}
+              disabled={diff.entries.length === 0}
+              className="w-full flex items-center gap-3 p-3 text-left text-sm hover:bg-gray-50 disabled:hover:bg-white"
+            >
+              {isExpanded ? (
+                <ChevronDown className="w-4 h-4 text-gray-500" />
+              ) : (
+                <ChevronRight className="w-4 h-4 text-gray-500" />
+              )}
+              <span className="flex-1 font-medium text-gray-900">{phaseName(diff.phase)}</span>
+              <span
+                className={`text-xs ${
+                  diff.status === 'unchanged' ? 'text-gray-400' : 'text-amber-700'
+                }`}
+              >
+                {diff.status === 'changed'
+                  ? `${diff.entries.length} ${diff.entries.length === 1 ? 'change' : 'changes'}`
+                  : diff.status}
+              </span>
+            </button>
+            {isExpanded && (
+              <div className="p-3 border-t border-gray-200">
+                <DiffList entries={diff.entries} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function preview(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  return text.length > 600 ? `${text.slice(0, 600)}…` : text;
+}
@@ -9,20 +9,65 @@ import {
   Palette,
   Terminal,
   Copy,
-  Check
+  Check,
+  Activity,
+  Pencil,
+  RefreshCw,
+  AlertTriangle,
+  Dices,
+  GitBranch,
+  GitCompare,
+  History
 } from 'lucide-react';
-import { supabase, type PlanningPhase, type Prompt } from '../lib/supabase';
+import { AGENT_PHASES, type PhaseType } from '../lib/agents';
+import { diffPhaseOutputs } from '../lib/json-diff';
+import { editPhaseOutput } from '../lib/remote-planning';
+import { supabase, type PlanningPhase, type PlanningRun, type Prompt } from '../lib/supabase';
+import { Branches } from './Branches';
+import { PhaseCandidates } from './PhaseCandidates';
+import { DiffList, RunDiff } from './PlanDiff';
+import { ProjectHistory } from './ProjectHistory';
+import { TraceViewer } from './TraceViewer';
 
 type PlanResultsProps = {
   projectId: string;
   projectName: string;
+  // Queue a run that regenerates the phases left stale by edits
+  onRegenerate?: () => void;
+  // Switch to a branch of this plan, or back to its parent
+  onOpenProject?: (projectId: string) => void;
+  // Follow the run queued for a change request
+  onChangeRequested?: () => void;
 };
 
-export function PlanResults({ projectId, projectName }: PlanResultsProps) {
+export function PlanResults({
+  projectId,
+  projectName,
+  onRegenerate,
+  onOpenProject,
+  onChangeRequested
+}: PlanResultsProps) {
   const [phases, setPhases] = useState<PlanningPhase[]>([]);
+  // Every version ever made current, for the history picker
+  const [versions, setVersions] = useState<PlanningPhase[]>([]);
+  const [runs, setRuns] = useState<PlanningRun[]>([]);
+  // Version shown for the selected phase; null shows the current one
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  // Version the shown one is diffed against; null shows the output itself
+  const [compareWithId, setCompareWithId] = useState<string | null>(null);
+  const [showRunDiff, setShowRunDiff] = useState(false);
+  // Best-of-N candidates of the shown version instead of its output
+  const [showCandidates, setShowCandidates] = useState(false);
+  const [showBranches, setShowBranches] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [prompts, setPrompts] = useState<Prompt[]>([]);
   const [selectedPhase, setSelectedPhase] = useState<string>('strategy');
   const [copiedPrompt, setCopiedPrompt] = useState<string | null>(null);
+  const [showTrace, setShowTrace] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [editError, setEditError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
 
   useEffect(() => {
     loadPlanData();
@@ -41,8 +86,20 @@ export function PlanResults({ projectId, projectName }: PlanResultsProps) {
       .eq('project_id', projectId)
       .order('order', { ascending: true });
 
-    if (phasesData) setPhases(phasesData);
+    const { data: runsData } = await supabase
+      .from('planning_runs')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('started_at', { ascending: true });
+
+    if (phasesData) {
+      setPhases(currentPhases(phasesData));
+      setVersions(phasesData.filter((p) => p.version != null));
+    }
     if (promptsData) setPrompts(promptsData);
+    if (runsData) setRuns(runsData);
+    setSelectedVersionId(null);
+    setCompareWithId(null);
   };
 
   const getPhaseIcon = (type: string) => {
@@ -112,7 +169,78 @@ export function PlanResults({ projectId, projectName }: PlanResultsProps) {
     setTimeout(() => setCopiedPrompt(null), 2000);
   };
 
-  const selectedPhaseData = phases.find((p) => p.phase_type === selectedPhase);
+  const phaseHistory = versions
+    .filter((p) => p.phase_type === selectedPhase)
+    .sort((a, b) => (b.version ?? 0) - (a.version ?? 0));
+  const selectedPhaseData =
+    phaseHistory.find((p) => p.id === selectedVersionId) ??
+    phases.find((p) => p.phase_type === selectedPhase);
+  const viewingHistory = Boolean(selectedPhaseData && !selectedPhaseData.is_current);
+  const compareWith = phaseHistory.find(
+    (p) => p.id === compareWithId && p.id !== selectedPhaseData?.id
+  );
+
+  const startComparing = () => {
+    if (!selectedPhaseData) return;
+    // Default to the version just before the one shown
+    const older = phaseHistory.find((p) => (p.version ?? 0) < (selectedPhaseData.version ?? 0));
+    const other = older ?? phaseHistory.find((p) => p.id !== selectedPhaseData.id);
+    setCompareWithId(other?.id ?? null);
+  };
+  const stalePhases = phases.filter((p) => p.status === 'stale');
+
+  const versionLabel = (phase: PlanningPhase) => {
+    const runIndex = runs.findIndex((r) => r.id === phase.run_id);
+    const origin = phase.edited_at
+      ? 'manual edit'
+      : phase.revision_source
+      ? `${phase.revision_source} revision`
+      : runIndex >= 0
+      ? `run ${runIndex + 1} (${runs[runIndex].kind})`
+      : 'initial';
+    const date = new Date(phase.completed_at ?? phase.created_at).toLocaleString();
+    return `v${phase.version} · ${origin} · ${date}${phase.is_current ? ' · current' : ''}`;
+  };
+
+  const selectPhase = (type: string) => {
+    setSelectedPhase(type);
+    setSelectedVersionId(null);
+    setCompareWithId(null);
+    setShowCandidates(false);
+    setEditing(false);
+    setEditError(null);
+  };
+
+  const startEditing = () => {
+    if (!selectedPhaseData) return;
+    setDraft(JSON.stringify(selectedPhaseData.output, null, 2));
+    setEditError(null);
+    setEditing(true);
+  };
+
+  const saveEdit = async () => {
+    if (!selectedPhaseData) return;
+
+    let output: unknown;
+    try {
+      output = JSON.parse(draft);
+    } catch (error) {
+      setEditError(`Not valid JSON: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await editPhaseOutput(projectId, selectedPhaseData.phase_type as PhaseType, output);
+      setEditing(false);
+      setEditError(null);
+      await loadPlanData();
+    } catch (error) {
+      setEditError(error instanceof Error ? error.message : 'Failed to save the edit');
+    } finally {
+      setSaving(false);
+    }
+  };
 
   return (
     <div className="w-full max-w-6xl mx-auto space-y-6">
@@ -122,15 +250,89 @@ export function PlanResults({ projectId, projectName }: PlanResultsProps) {
             <h2 className="text-2xl font-bold text-gray-900">{projectName}</h2>
             <p className="text-gray-600 mt-1">Complete Implementation Plan</p>
           </div>
-          <button
-            onClick={exportMarkdown}
-            className="flex items-center gap-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-          >
-            <Download className="w-4 h-4" />
-            Export Markdown
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowTrace(!showTrace)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg border-2 transition-all ${
+                showTrace
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+              }`}
+            >
+              <Activity className="w-4 h-4" />
+              LLM Trace
+            </button>
+            {runs.length > 1 && (
+              <button
+                onClick={() => setShowRunDiff(!showRunDiff)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg border-2 transition-all ${
+                  showRunDiff
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+                }`}
+              >
+                <GitCompare className="w-4 h-4" />
+                Compare Runs
+              </button>
+            )}
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg border-2 transition-all ${
+                showHistory
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+              }`}
+            >
+              <History className="w-4 h-4" />
+              History
+            </button>
+            {onOpenProject && (
+              <button
+                onClick={() => setShowBranches(!showBranches)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg border-2 transition-all ${
+                  showBranches
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-300 bg-white text-gray-700 hover:border-gray-400'
+                }`}
+              >
+                <GitBranch className="w-4 h-4" />
+                Branches
+              </button>
+            )}
+            <button
+              onClick={exportMarkdown}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              Export Markdown
+            </button>
+          </div>
         </div>
 
+        {stalePhases.length > 0 && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="font-semibold text-amber-900">
+                {stalePhases.length} {stalePhases.length === 1 ? 'phase is' : 'phases are'} out of date
+              </p>
+              <p className="text-sm text-amber-700 mt-1">
+                Built on an edited phase: {stalePhases.map((p) => p.phase_type).join(', ')}.
+                Regenerating re-runs only these, then the prompts.
+              </p>
+            </div>
+            {onRegenerate && (
+              <button
+                onClick={onRegenerate}
+                className="flex-shrink-0 flex items-center gap-2 px-4 py-2 bg-amber-500 text-white text-sm font-medium rounded-lg hover:bg-amber-600 transition-colors"
+              >
+                <RefreshCw className="w-4 h-4" />
+                Regenerate
+              </button>
+            )}
+          </div>
+        )}
+
         <div className="grid grid-cols-7 gap-2 mb-6">
           {phases.map((phase) => {
             const Icon = getPhaseIcon(phase.phase_type);
@@ -138,10 +340,12 @@ export function PlanResults({ projectId, projectName }: PlanResultsProps) {
             return (
               <button
                 key={phase.id}
-                onClick={() => setSelectedPhase(phase.phase_type)}
+                onClick={() => selectPhase(phase.phase_type)}
                 className={`flex flex-col items-center gap-2 p-3 rounded-lg border-2 transition-all ${
                   isSelected
                     ? 'border-blue-500 bg-blue-50'
+                    : phase.status === 'stale'
+                    ? 'border-amber-300 bg-amber-50 hover:border-amber-400'
                     : 'border-gray-200 bg-white hover:border-gray-300'
                 }`}
               >
@@ -160,18 +364,184 @@ export function PlanResults({ projectId, projectName }: PlanResultsProps) {
 
         {selectedPhaseData && (
           <div className="bg-gray-50 rounded-lg p-6 border border-gray-200">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">
-              {selectedPhaseData.phase_type.charAt(0).toUpperCase() +
-                selectedPhaseData.phase_type.slice(1)}{' '}
-              Details
-            </h3>
-            <pre className="bg-white p-4 rounded-lg border border-gray-200 overflow-x-auto text-sm">
-              <code>{JSON.stringify(selectedPhaseData.output, null, 2)}</code>
-            </pre>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {selectedPhaseData.phase_type.charAt(0).toUpperCase() +
+                  selectedPhaseData.phase_type.slice(1)}{' '}
+                Details
+                {selectedPhaseData.status === 'stale' && (
+                  <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded bg-amber-100 text-amber-800">
+                    Stale
+                  </span>
+                )}
+                {selectedPhaseData.edited_at && (
+                  <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded bg-blue-100 text-blue-800">
+                    Edited
+                  </span>
+                )}
+                {viewingHistory && (
+                  <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded bg-gray-200 text-gray-700">
+                    Superseded
+                  </span>
+                )}
+              </h3>
+              <div className="flex items-center gap-3">
+                {phaseHistory.length > 1 && (
+                  <select
+                    value={selectedPhaseData.id}
+                    onChange={(e) => {
+                      setSelectedVersionId(e.target.value);
+                      setCompareWithId(null);
+                      setEditing(false);
+                    }}
+                    disabled={editing}
+                    className="px-2 py-1.5 text-xs border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {phaseHistory.map((version) => (
+                      <option key={version.id} value={version.id}>
+                        {versionLabel(version)}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {selectedPhaseData.cost_usd != null && !selectedPhaseData.edited_at && (
+                  <span className="text-xs text-gray-500">
+                    {selectedPhaseData.model_used} ·{' '}
+                    {(
+                      (selectedPhaseData.input_tokens ?? 0) + (selectedPhaseData.output_tokens ?? 0)
+                    ).toLocaleString()}{' '}
+                    tokens · ${Number(selectedPhaseData.cost_usd).toFixed(4)}
+                  </span>
+                )}
+                {!editing && (selectedPhaseData.candidates?.length ?? 0) > 0 && (
+                  <button
+                    onClick={() => {
+                      setShowCandidates(!showCandidates);
+                      setCompareWithId(null);
+                    }}
+                    className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+                      showCandidates
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-300 text-gray-700 hover:border-blue-500 hover:text-blue-600'
+                    }`}
+                  >
+                    <Dices className="w-4 h-4" />
+                    Candidates ({selectedPhaseData.candidates?.length})
+                  </button>
+                )}
+                {!editing && phaseHistory.length > 1 && (
+                  <button
+                    onClick={() => {
+                      setShowCandidates(false);
+                      if (compareWith) setCompareWithId(null);
+                      else startComparing();
+                    }}
+                    className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+                      compareWith
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-300 text-gray-700 hover:border-blue-500 hover:text-blue-600'
+                    }`}
+                  >
+                    <GitCompare className="w-4 h-4" />
+                    Compare
+                  </button>
+                )}
+                {!editing && !viewingHistory && (
+                  <button
+                    onClick={startEditing}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 rounded-lg border border-gray-300 hover:border-blue-500 hover:text-blue-600 transition-colors"
+                  >
+                    <Pencil className="w-4 h-4" />
+                    Edit
+                  </button>
+                )}
+              </div>
+            </div>
+            {editing ? (
+              <div>
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  spellCheck={false}
+                  rows={20}
+                  className="w-full p-4 font-mono text-sm rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                {editError && <p className="mt-2 text-sm text-red-600 break-words">{editError}</p>}
+                <p className="mt-2 text-xs text-gray-500">
+                  Saving marks every phase built on this one as stale.
+                </p>
+                <div className="mt-3 flex justify-end gap-2">
+                  <button
+                    onClick={() => setEditing(false)}
+                    disabled={saving}
+                    className="px-4 py-2 text-sm text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={saveEdit}
+                    disabled={saving}
+                    className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-colors"
+                  >
+                    <Check className="w-4 h-4" />
+                    Save
+                  </button>
+                </div>
+              </div>
+            ) : showCandidates && selectedPhaseData.candidates?.length ? (
+              <PhaseCandidates candidates={selectedPhaseData.candidates} />
+            ) : compareWith ? (
+              <div className="bg-white p-4 rounded-lg border border-gray-200">
+                <div className="flex items-center gap-2 mb-4 text-sm text-gray-600">
+                  Changes from
+                  <select
+                    value={compareWith.id}
+                    onChange={(e) => setCompareWithId(e.target.value)}
+                    className="px-2 py-1 text-xs border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {phaseHistory
+                      .filter((p) => p.id !== selectedPhaseData.id)
+                      .map((version) => (
+                        <option key={version.id} value={version.id}>
+                          {versionLabel(version)}
+                        </option>
+                      ))}
+                  </select>
+                  to v{selectedPhaseData.version}
+                </div>
+                <DiffList
+                  entries={diffPhaseOutputs(
+                    selectedPhaseData.phase_type as PhaseType,
+                    compareWith.output,
+                    selectedPhaseData.output
+                  )}
+                />
+              </div>
+            ) : (
+              <pre className="bg-white p-4 rounded-lg border border-gray-200 overflow-x-auto text-sm">
+                <code>{JSON.stringify(selectedPhaseData.output, null, 2)}</code>
+              </pre>
+            )}
           </div>
         )}
       </div>
 
+      {showRunDiff && <RunDiff versions={versions} runs={runs} />}
+
+      {showHistory && (
+        <ProjectHistory
+          projectId={projectId}
+          runs={runs}
+          onChangeRequested={onChangeRequested}
+        />
+      )}
+
+      {showBranches && onOpenProject && (
+        <Branches projectId={projectId} phases={phases} onOpenProject={onOpenProject} />
+      )}
+
+      {showTrace && <TraceViewer projectId={projectId} />}
+
       <div className="grid md:grid-cols-2 gap-6">
         {['bolt', 'cursor'].map((tool) => {
           const toolPrompts = prompts.filter((p) => p.tool === tool);
@@ -223,3 +593,17 @@ export function PlanResults({ projectId, projectName }: PlanResultsProps) {
     </div>
   );
 }
+
+/**
+ * The plan as it stands: the current version of each phase, in pipeline order.
+ */
+function currentPhases(rows: PlanningPhase[]): PlanningPhase[] {
+  const current = new Map<string, PlanningPhase>();
+  for (const row of rows) {
+    if (row.is_current) current.set(row.phase_type, row);
+  }
+
+  return AGENT_PHASES.map((p) => current.get(p.type)).filter(
+    (p): p is PlanningPhase => Boolean(p)
+  );
+}
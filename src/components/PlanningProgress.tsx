@@ -1,51 +1,135 @@
-import { CheckCircle2, Circle, Loader2, AlertCircle } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import {
+  CheckCircle2,
+  Circle,
+  Loader2,
+  AlertCircle,
+  AlertTriangle,
+  Clock,
+  ListChecks,
+  PauseCircle,
+  RotateCw,
+  Wrench,
+  XCircle
+} from 'lucide-react';
 import { AGENT_PHASES } from '../lib/agents';
-import type { OrchestrationProgress } from '../lib/orchestrator';
+import {
+  describeEvent,
+  type OrchestrationEvent,
+  type OrchestrationProgress
+} from '../lib/progress-events';
 
 type PlanningProgressProps = {
   progress: OrchestrationProgress;
+  onResume?: () => void;
+  onCancel?: () => void;
 };
 
-export function PlanningProgress({ progress }: PlanningProgressProps) {
+export function PlanningProgress({ progress, onResume, onCancel }: PlanningProgressProps) {
   const getPhaseStatus = (phaseType: string) => {
     if (progress.completedPhases.includes(phaseType)) {
       return 'completed';
     }
-    if (progress.currentPhase === AGENT_PHASES.find(p => p.type === phaseType)?.name) {
-      return 'active';
+    if (progress.awaitingApproval.includes(phaseType)) {
+      return 'awaiting';
+    }
+    if (progress.activePhases.includes(phaseType)) {
+      return progress.cancelled ? 'pending' : 'active';
     }
     return 'pending';
   };
 
+  const runStart = progress.events.length > 0 ? Date.parse(progress.events[0].at) : null;
+  const lastEvent = progress.events[progress.events.length - 1];
+  const finished =
+    lastEvent?.type === 'run_completed' ||
+    lastEvent?.type === 'run_failed' ||
+    lastEvent?.type === 'run_paused';
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick the elapsed clock only while the run is live
+  useEffect(() => {
+    if (runStart === null || finished) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [runStart, finished]);
+
+  const elapsedMs =
+    runStart === null ? 0 : (finished ? Date.parse(lastEvent.at) : now) - runStart;
+
   return (
     <div className="w-full max-w-3xl mx-auto">
       <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-8">
-        <div className="mb-8">
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Planning Your Project</h2>
-          <p className="text-gray-600">
-            AI agents are analyzing your project and creating a comprehensive plan
-          </p>
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Planning Your Project</h2>
+            <p className="text-gray-600">
+              AI agents are analyzing your project and creating a comprehensive plan
+            </p>
+          </div>
+          {onCancel && !progress.error && (
+            <button
+              onClick={onCancel}
+              className="flex-shrink-0 flex items-center gap-2 px-4 py-2 bg-white text-gray-700 text-sm font-medium rounded-lg border-2 border-gray-300 hover:border-red-400 hover:text-red-600 transition-all"
+            >
+              <XCircle className="w-4 h-4" />
+              Cancel
+            </button>
+          )}
         </div>
 
-        {progress.error && (
+        {progress.cancelled && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-start gap-3">
+            <XCircle className="w-5 h-5 text-amber-500 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="font-semibold text-amber-900">Planning Cancelled</p>
+              <p className="text-sm text-amber-700 mt-1">
+                Completed phases are saved. Resume to continue where the run stopped.
+              </p>
+            </div>
+            {onResume && (
+              <button
+                onClick={onResume}
+                className="flex-shrink-0 flex items-center gap-2 px-4 py-2 bg-amber-500 text-white text-sm font-medium rounded-lg hover:bg-amber-600 transition-colors"
+              >
+                <RotateCw className="w-4 h-4" />
+                Resume
+              </button>
+            )}
+          </div>
+        )}
+
+        {progress.error && !progress.cancelled && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
             <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
-            <div>
+            <div className="flex-1">
               <p className="font-semibold text-red-900">Planning Error</p>
               <p className="text-sm text-red-700 mt-1">{progress.error}</p>
             </div>
+            {onResume && (
+              <button
+                onClick={onResume}
+                className="flex-shrink-0 flex items-center gap-2 px-4 py-2 bg-red-500 text-white text-sm font-medium rounded-lg hover:bg-red-600 transition-colors"
+              >
+                <RotateCw className="w-4 h-4" />
+                Resume
+              </button>
+            )}
           </div>
         )}
 
         <div className="space-y-4">
           {AGENT_PHASES.map((phase) => {
             const status = getPhaseStatus(phase.type);
+            const fallback = progress.fallbacks?.[phase.type];
             return (
               <div
                 key={phase.type}
                 className={`p-4 rounded-lg border-2 transition-all ${
                   status === 'completed'
                     ? 'border-green-200 bg-green-50'
+                    : status === 'awaiting'
+                    ? 'border-amber-200 bg-amber-50'
                     : status === 'active'
                     ? 'border-blue-300 bg-blue-50'
                     : 'border-gray-200 bg-gray-50'
@@ -55,6 +139,8 @@ export function PlanningProgress({ progress }: PlanningProgressProps) {
                   <div className="flex-shrink-0 mt-0.5">
                     {status === 'completed' ? (
                       <CheckCircle2 className="w-6 h-6 text-green-500" />
+                    ) : status === 'awaiting' ? (
+                      <PauseCircle className="w-6 h-6 text-amber-500" />
                     ) : status === 'active' ? (
                       <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
                     ) : (
@@ -66,6 +152,8 @@ export function PlanningProgress({ progress }: PlanningProgressProps) {
                       className={`font-semibold ${
                         status === 'completed'
                           ? 'text-green-900'
+                          : status === 'awaiting'
+                          ? 'text-amber-900'
                           : status === 'active'
                           ? 'text-blue-900'
                           : 'text-gray-700'
@@ -77,6 +165,8 @@ export function PlanningProgress({ progress }: PlanningProgressProps) {
                       className={`text-sm mt-1 ${
                         status === 'completed'
                           ? 'text-green-700'
+                          : status === 'awaiting'
+                          ? 'text-amber-700'
                           : status === 'active'
                           ? 'text-blue-700'
                           : 'text-gray-600'
@@ -84,6 +174,12 @@ export function PlanningProgress({ progress }: PlanningProgressProps) {
                     >
                       {phase.description}
                     </p>
+                    {fallback && (
+                      <p className="flex items-center gap-1 text-xs mt-1 text-amber-700">
+                        <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                        Primary model unavailable; answered by {fallback}
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -95,6 +191,17 @@ export function PlanningProgress({ progress }: PlanningProgressProps) {
           <div className="flex items-center justify-between text-sm">
             <span className="text-gray-600">
               Phase {progress.completedPhases.length} of {progress.totalPhases}
+              {runStart !== null && (
+                <span className="ml-2 text-gray-500">· {formatElapsed(elapsedMs)} elapsed</span>
+              )}
+              {progress.activePhases.length > 1 && (
+                <span className="ml-2 text-blue-600">
+                  · {progress.activePhases.length} running in parallel
+                </span>
+              )}
+              {progress.activePhases.length === 0 && progress.currentPhase && !progress.error && (
+                <span className="ml-2 text-blue-600">· {progress.currentPhase}</span>
+              )}
             </span>
             <div className="flex items-center gap-2">
               <div className="w-48 h-2 bg-gray-200 rounded-full overflow-hidden">
@@ -110,8 +217,153 @@ export function PlanningProgress({ progress }: PlanningProgressProps) {
               </span>
             </div>
           </div>
+          {progress.usage && (
+            <div className="mt-3 flex items-center justify-between text-xs text-gray-500">
+              <span>
+                {(progress.usage.inputTokens + progress.usage.outputTokens).toLocaleString()} tokens
+                ({progress.usage.inputTokens.toLocaleString()} in /{' '}
+                {progress.usage.outputTokens.toLocaleString()} out)
+              </span>
+              <span>
+                ${progress.usage.costUsd.toFixed(4)}
+                {progress.budgetUsd != null && ` of $${progress.budgetUsd.toFixed(2)} budget`}
+              </span>
+            </div>
+          )}
         </div>
+
+        {progress.events.length > 0 && <EventTimeline events={progress.events} />}
       </div>
     </div>
   );
 }
+
+/**
+ * Run events newest first, each with its offset from the start of the run.
+ * Completed phases also show how long they took.
+ */
+function EventTimeline({ events }: { events: OrchestrationEvent[] }) {
+  const start = Date.parse(events[0].at);
+  const phaseStarts = new Map<string, number>();
+  const rows = events
+    .map((event) => {
+      let duration: number | null = null;
+      if (event.type === 'phase_started') phaseStarts.set(event.phase, Date.parse(event.at));
+      if (event.type === 'phase_completed' && phaseStarts.has(event.phase)) {
+        duration = Date.parse(event.at) - phaseStarts.get(event.phase)!;
+      }
+      return { event, offset: Date.parse(event.at) - start, duration };
+    })
+    // First attempts are implied by "started"; only retries are worth a row
+    .filter(({ event }) => !(event.type === 'phase_attempt' && event.attempt === 1))
+    .reverse();
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200">
+      <h3 className="text-sm font-semibold text-gray-900 mb-3">Timeline</h3>
+      <ol className="space-y-1.5 max-h-80 overflow-y-auto text-sm">
+        {rows.map(({ event, offset, duration }, i) => {
+          const tone = eventTone(event);
+          return (
+            <li key={`${event.at}-${i}`} className="flex items-start gap-3">
+              <span className="w-12 flex-shrink-0 text-right font-mono text-xs text-gray-400 mt-0.5">
+                +{formatElapsed(offset)}
+              </span>
+              <EventIcon event={event} tone={tone} />
+              <span
+                className={`flex-1 min-w-0 break-words ${
+                  tone === 'error'
+                    ? 'text-red-700'
+                    : tone === 'warning'
+                    ? 'text-amber-700'
+                    : tone === 'success'
+                    ? 'text-green-700'
+                    : 'text-gray-700'
+                }`}
+              >
+                {describeEvent(event)}
+                {duration !== null && (
+                  <span className="ml-2 text-xs text-gray-400">({formatElapsed(duration)})</span>
+                )}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
+
+type EventTone = 'error' | 'warning' | 'success' | 'info';
+
+function eventTone(event: OrchestrationEvent): EventTone {
+  switch (event.type) {
+    case 'run_failed':
+      return event.cancelled ? 'warning' : 'error';
+    case 'phase_failed':
+      return event.cancelled ? 'warning' : 'error';
+    case 'validation_failed':
+    case 'revision_rejected':
+    case 'revision_discarded':
+    case 'model_fallback':
+    case 'phase_repair':
+    case 'approval_requested':
+    case 'run_paused':
+      return 'warning';
+    case 'checklist_result':
+      return event.status === 'pass' ? 'success' : 'warning';
+    case 'critic_revisions':
+      return event.revisions.length > 0 ? 'warning' : 'success';
+    case 'phase_completed':
+    case 'run_completed':
+    case 'prompts_persisted':
+      return 'success';
+    default:
+      return 'info';
+  }
+}
+
+function EventIcon({ event, tone }: { event: OrchestrationEvent; tone: EventTone }) {
+  const className = `w-4 h-4 flex-shrink-0 mt-0.5 ${
+    tone === 'error'
+      ? 'text-red-500'
+      : tone === 'warning'
+      ? 'text-amber-500'
+      : tone === 'success'
+      ? 'text-green-500'
+      : 'text-blue-500'
+  }`;
+
+  switch (event.type) {
+    case 'phase_repair':
+      return <Wrench className={className} />;
+    case 'phase_started':
+      return event.revision ? <RotateCw className={className} /> : <Circle className={className} />;
+    case 'phase_attempt':
+      return <RotateCw className={className} />;
+    case 'approval_requested':
+    case 'run_paused':
+      return <PauseCircle className={className} />;
+    case 'checklist_result':
+    case 'critic_revisions':
+      return <ListChecks className={className} />;
+    case 'stage_started':
+    case 'run_started':
+      return <Clock className={className} />;
+    default:
+      return tone === 'error' ? (
+        <AlertCircle className={className} />
+      ) : tone === 'warning' ? (
+        <AlertTriangle className={className} />
+      ) : (
+        <CheckCircle2 className={className} />
+      );
+  }
+}
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
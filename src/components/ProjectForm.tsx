@@ -1,8 +1,35 @@
 import { useState } from 'react';
 import { Sparkles, Plus, X } from 'lucide-react';
+import type { AIProvider } from '../lib/providers';
+import { singleProviderRouting, type RoutingConfig } from '../lib/routing';
+
+// Phases that pause for review when approval is required
+const REVIEWED_PHASES = ['strategy', 'system'];
+// Candidates sampled per phase when best-of-N is on
+const SAMPLED_PHASES = { strategy: 3, data: 3 };
+// Tried when a phase's provider stays unavailable after retries
+const FALLBACK_CHAIN = [{ provider: 'anthropic', model: 'claude-3-5-sonnet-latest' }];
+// Providers a whole plan can run on instead of the default per-phase routing
+const PROVIDER_LABELS: Partial<Record<AIProvider, string>> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic (Claude)',
+  gemini: 'Google Gemini',
+  mistral: 'Mistral',
+  'openai-compatible': 'Self-hosted (OpenAI-compatible)'
+};
 
 type ProjectFormProps = {
-  onSubmit: (name: string, description: string, competitorLinks: string[], competitorReviews: string[]) => void;
+  onSubmit: (
+    name: string,
+    description: string,
+    competitorLinks: string[],
+    competitorReviews: string[],
+    budgetUsd: number | null,
+    approvalPhases: string[] | null,
+    sampleCounts: Record<string, number> | null,
+    fallbackChain: Array<{ provider: string; model?: string }> | null,
+    routing: RoutingConfig | null
+  ) => void;
   isLoading?: boolean;
 };
 
@@ -11,13 +38,29 @@ export function ProjectForm({ onSubmit, isLoading }: ProjectFormProps) {
   const [description, setDescription] = useState('');
   const [competitorLinks, setCompetitorLinks] = useState<string[]>(['']);
   const [competitorReviews, setCompetitorReviews] = useState<string[]>(['']);
+  const [budget, setBudget] = useState('');
+  const [requireApproval, setRequireApproval] = useState(false);
+  const [bestOfN, setBestOfN] = useState(false);
+  const [fallback, setFallback] = useState(false);
+  const [provider, setProvider] = useState<AIProvider | ''>('');
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (name.trim() && description.trim()) {
       const filteredLinks = competitorLinks.filter(l => l.trim());
       const filteredReviews = competitorReviews.filter(r => r.trim());
-      onSubmit(name.trim(), description.trim(), filteredLinks, filteredReviews);
+      const budgetUsd = budget.trim() ? Number(budget) : null;
+      onSubmit(
+        name.trim(),
+        description.trim(),
+        filteredLinks,
+        filteredReviews,
+        budgetUsd !== null && budgetUsd > 0 ? budgetUsd : null,
+        requireApproval ? REVIEWED_PHASES : null,
+        bestOfN ? SAMPLED_PHASES : null,
+        fallback ? FALLBACK_CHAIN : null,
+        provider ? singleProviderRouting(provider) : null
+      );
     }
   };
 
@@ -181,6 +224,103 @@ export function ProjectForm({ onSubmit, isLoading }: ProjectFormProps) {
           </p>
         </div>
 
+        <div className="border-t border-gray-200 pt-6">
+          <label htmlFor="budget" className="block text-sm font-semibold text-gray-900 mb-2">
+            Optional: Budget (USD)
+          </label>
+          <input
+            type="number"
+            id="budget"
+            min="0"
+            step="0.01"
+            value={budget}
+            onChange={(e) => setBudget(e.target.value)}
+            placeholder="e.g., 2.50"
+            className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all outline-none text-sm"
+            disabled={isLoading}
+          />
+          <p className="mt-2 text-xs text-gray-500">
+            Planning stops before the next AI call once this much has been spent
+          </p>
+        </div>
+
+        <div className="border-t border-gray-200 pt-6">
+          <label htmlFor="provider" className="block text-sm font-semibold text-gray-900 mb-2">
+            Optional: Provider
+          </label>
+          <select
+            id="provider"
+            value={provider}
+            onChange={(e) => setProvider(e.target.value as AIProvider | '')}
+            className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all outline-none text-sm bg-white"
+            disabled={isLoading}
+          >
+            <option value="">Default routing (stronger models for System, Data and Critic)</option>
+            {Object.entries(PROVIDER_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <p className="mt-2 text-xs text-gray-500">
+            Runs every phase on this provider's default model; resumes and regenerations keep it
+          </p>
+        </div>
+
+        <div className="border-t border-gray-200 pt-6">
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={requireApproval}
+              onChange={(e) => setRequireApproval(e.target.checked)}
+              className="mt-0.5 w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              disabled={isLoading}
+            />
+            <span>
+              <span className="block text-sm font-semibold text-gray-900">
+                Require approval after Strategy and System
+              </span>
+              <span className="block mt-1 text-xs text-gray-500">
+                Planning pauses so you can approve, edit or reject these phases before later phases build on them
+              </span>
+            </span>
+          </label>
+          <label className="flex items-start gap-3 cursor-pointer mt-4">
+            <input
+              type="checkbox"
+              checked={bestOfN}
+              onChange={(e) => setBestOfN(e.target.checked)}
+              className="mt-0.5 w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              disabled={isLoading}
+            />
+            <span>
+              <span className="block text-sm font-semibold text-gray-900">
+                Best of 3 for Strategy and Data
+              </span>
+              <span className="block mt-1 text-xs text-gray-500">
+                Samples three candidates for these phases and keeps the highest-scoring one; costs about three times as much for them
+              </span>
+            </span>
+          </label>
+          <label className="flex items-start gap-3 cursor-pointer mt-4">
+            <input
+              type="checkbox"
+              checked={fallback}
+              onChange={(e) => setFallback(e.target.checked)}
+              className="mt-0.5 w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              disabled={isLoading}
+            />
+            <span>
+              <span className="block text-sm font-semibold text-gray-900">
+                Fall back to Claude when a provider is down
+              </span>
+              <span className="block mt-1 text-xs text-gray-500">
+                If a phase's model keeps failing with rate limits, overloads or server errors, the call moves to Claude 3.5 Sonnet instead of failing the plan
+              </span>
+            </span>
+          </label>
+        </div>
+
         <button
           type="submit"
           disabled={isLoading || !name.trim() || !description.trim()}
@@ -0,0 +1,227 @@
+import { useState, useEffect } from 'react';
+import { Check, FilePen, History } from 'lucide-react';
+import { phaseName } from '../lib/progress-events';
+import { requestChange } from '../lib/remote-planning';
+import {
+  supabase,
+  type ChangeRequest,
+  type PlanningRun,
+  type Project
+} from '../lib/supabase';
+
+type ProjectHistoryProps = {
+  projectId: string;
+  runs: PlanningRun[];
+  // Called once a change request is queued, to follow its run
+  onChangeRequested?: () => void;
+};
+
+type HistoryItem =
+  | { at: string; run: PlanningRun }
+  | { at: string; change: ChangeRequest };
+
+const FIELD_LABELS: Record<string, string> = {
+  description: 'Description',
+  competitor_links: 'Competitor links',
+  competitor_reviews: 'Competitor reviews'
+};
+
+/**
+ * The project's runs and change requests, newest first, plus the form for
+ * amending the brief with a change request.
+ */
+export function ProjectHistory({ projectId, runs, onChangeRequested }: ProjectHistoryProps) {
+  const [project, setProject] = useState<Project | null>(null);
+  const [changeRequests, setChangeRequests] = useState<ChangeRequest[]>([]);
+  const [requesting, setRequesting] = useState(false);
+  const [summary, setSummary] = useState('');
+  const [description, setDescription] = useState('');
+  const [links, setLinks] = useState('');
+  const [reviews, setReviews] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    loadHistory();
+  }, [projectId]);
+
+  const loadHistory = async () => {
+    const { data } = await supabase.from('projects').select('*').eq('id', projectId).maybeSingle();
+    setProject(data);
+
+    const { data: requestsData } = await supabase
+      .from('change_requests')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true });
+    if (requestsData) setChangeRequests(requestsData);
+  };
+
+  const startRequest = () => {
+    if (!project) return;
+    setSummary('');
+    setDescription(project.description);
+    setLinks((project.competitor_links ?? []).join('\n'));
+    setReviews((project.competitor_reviews ?? []).join('\n'));
+    setError(null);
+    setRequesting(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!project) return;
+
+    const lines = (text: string) =>
+      text
+        .split('\n')
+        .map((l) => l.trim())
+        .filter(Boolean);
+
+    setBusy(true);
+    setError(null);
+    try {
+      await requestChange(project, summary, {
+        description: description.trim(),
+        competitor_links: lines(links),
+        competitor_reviews: lines(reviews)
+      });
+      setRequesting(false);
+      onChangeRequested?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit the change request');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const items: HistoryItem[] = [
+    ...runs.map((run) => ({ at: run.started_at, run })),
+    ...changeRequests.map((change) => ({ at: change.created_at, change }))
+  ].sort((a, b) => Date.parse(b.at) - Date.parse(a.at));
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Project History
+        </h3>
+        {!requesting && onChangeRequested && (
+          <button
+            onClick={startRequest}
+            className="flex items-center gap-2 px-4 py-2 text-sm bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            <FilePen className="w-4 h-4" />
+            Request Change
+          </button>
+        )}
+      </div>
+
+      {requesting && (
+        <div className="mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3 text-sm">
+          <input
+            value={summary}
+            onChange={(e) => setSummary(e.target.value)}
+            placeholder="What changed, e.g. 'Add offline mode for field workers'"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <label className="block">
+            <span className="text-xs font-medium text-gray-600">Description</span>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={5}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          <div className="grid md:grid-cols-2 gap-3">
+            <label className="block">
+              <span className="text-xs font-medium text-gray-600">Competitor links (one per line)</span>
+              <textarea
+                value={links}
+                onChange={(e) => setLinks(e.target.value)}
+                rows={3}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-gray-600">Competitor reviews (one per line)</span>
+              <textarea
+                value={reviews}
+                onChange={(e) => setReviews(e.target.value)}
+                rows={3}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">
+            An impact analysis picks the phases the change affects; only those (and the phases built
+            on them) are regenerated.
+          </p>
+          {error && <p className="text-red-600 break-words">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setRequesting(false)}
+              disabled={busy}
+              className="px-4 py-2 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={busy}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-colors"
+            >
+              <Check className="w-4 h-4" />
+              Submit Change
+            </button>
+          </div>
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">No history yet.</p>
+      ) : (
+        <ol className="space-y-2">
+          {items.map((item) =>
+            'run' in item ? (
+              <li key={item.run.id} className="flex items-center gap-3 text-xs text-gray-600">
+                <span className="w-36 flex-shrink-0 text-gray-400">
+                  {new Date(item.at).toLocaleString()}
+                </span>
+                <span>
+                  Run · {item.run.kind} · {item.run.status}
+                  {item.run.error && <span className="text-red-600"> · {item.run.error}</span>}
+                </span>
+              </li>
+            ) : (
+              <li
+                key={item.change.id}
+                className="p-3 rounded-lg border border-blue-200 bg-blue-50 text-sm"
+              >
+                <div className="flex items-center gap-3">
+                  <span className="w-36 flex-shrink-0 text-xs text-gray-400">
+                    {new Date(item.at).toLocaleString()}
+                  </span>
+                  <span className="flex-1 font-medium text-blue-900">{item.change.summary}</span>
+                  <span className="text-xs text-blue-700">{item.change.status}</span>
+                </div>
+                <p className="mt-1 text-xs text-gray-600">
+                  Changed: {item.change.changes.map((c) => FIELD_LABELS[c.field] ?? c.field).join(', ')}
+                </p>
+                {item.change.impacted_phases && (
+                  <p className="mt-1 text-xs text-gray-600">
+                    Impacted:{' '}
+                    {item.change.impacted_phases.length > 0
+                      ? item.change.impacted_phases.map(phaseName).join(', ')
+                      : 'none'}
+                    {item.change.impact_rationale && ` — ${item.change.impact_rationale}`}
+                  </p>
+                )}
+              </li>
+            )
+          )}
+        </ol>
+      )}
+    </div>
+  );
+}
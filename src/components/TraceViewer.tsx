@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react';
+import { Activity, AlertTriangle, ChevronDown, ChevronRight, Clock } from 'lucide-react';
+import { supabase, type LLMCall } from '../lib/supabase';
+
+type TraceViewerProps = {
+  projectId: string;
+};
+
+export function TraceViewer({ projectId }: TraceViewerProps) {
+  const [calls, setCalls] = useState<LLMCall[]>([]);
+  const [phaseFilter, setPhaseFilter] = useState<string>('all');
+  const [expandedCall, setExpandedCall] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCalls();
+  }, [projectId]);
+
+  const loadCalls = async () => {
+    const { data } = await supabase
+      .from('llm_calls')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true });
+
+    if (data) setCalls(data);
+  };
+
+  const phaseTypes = Array.from(new Set(calls.map((c) => c.phase_type)));
+  const visibleCalls =
+    phaseFilter === 'all' ? calls : calls.filter((c) => c.phase_type === phaseFilter);
+
+  const hasProblem = (call: LLMCall) =>
+    Boolean(call.error || call.parse_error || call.validation_errors?.length);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+          <Activity className="w-5 h-5" />
+          LLM Call Trace
+        </h3>
+        <select
+          value={phaseFilter}
+          onChange={(e) => setPhaseFilter(e.target.value)}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="all">All phases ({calls.length})</option>
+          {phaseTypes.map((type) => (
+            <option key={type} value={type}>
+              {type} ({calls.filter((c) => c.phase_type === type).length})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {visibleCalls.length === 0 && (
+        <p className="text-sm text-gray-500">No LLM calls recorded for this project.</p>
+      )}
+
+      <div className="space-y-2">
+        {visibleCalls.map((call) => {
+          const isExpanded = expandedCall === call.id;
+          const problem = hasProblem(call);
+          return (
+            <div
+              key={call.id}
+              className={`border rounded-lg ${problem ? 'border-red-200' : 'border-gray-200'}`}
+            >
+              <button
+                onClick={() => setExpandedCall(isExpanded ? null : call.id)}
+                className="w-full flex items-center gap-3 p-3 text-left text-sm hover:bg-gray-50 transition-colors"
+              >
+                {isExpanded ? (
+                  <ChevronDown className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                ) : (
+                  <ChevronRight className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                )}
+                <span className="font-semibold text-gray-900 w-24">{call.phase_type}</span>
+                <span className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded text-xs">
+                  {call.kind} #{call.attempt}
+                </span>
+                <span className="text-gray-600 truncate flex-1">{call.model || call.provider}</span>
+                {call.truncated && (
+                  <span
+                    title="The response stopped at maxTokens"
+                    className="px-2 py-0.5 bg-amber-100 text-amber-800 rounded text-xs flex-shrink-0"
+                  >
+                    truncated
+                  </span>
+                )}
+                {problem && <AlertTriangle className="w-4 h-4 text-red-500 flex-shrink-0" />}
+                <span className="flex items-center gap-1 text-gray-500 text-xs flex-shrink-0">
+                  <Clock className="w-3 h-3" />
+                  {(call.latency_ms / 1000).toFixed(1)}s
+                </span>
+              </button>
+
+              {isExpanded && (
+                <div className="px-3 pb-3 space-y-3 text-xs">
+                  {call.error && <TraceField label="Call Error" value={call.error} tone="error" />}
+                  {call.parse_error && (
+                    <TraceField label="Parse Error" value={call.parse_error} tone="error" />
+                  )}
+                  {call.validation_errors && call.validation_errors.length > 0 && (
+                    <TraceField
+                      label="Validation Errors"
+                      value={call.validation_errors.join('\n')}
+                      tone="error"
+                    />
+                  )}
+                  {call.messages.map((m, i) => (
+                    <TraceField key={i} label={`Prompt (${m.role})`} value={m.content} />
+                  ))}
+                  <TraceField label="Raw Response" value={call.response ?? ''} />
+                  {call.stop_reason && <TraceField label="Stop Reason" value={call.stop_reason} />}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function TraceField({
+  label,
+  value,
+  tone
+}: {
+  label: string;
+  value: string;
+  tone?: 'error';
+}) {
+  return (
+    <div>
+      <p className={`font-semibold mb-1 ${tone === 'error' ? 'text-red-700' : 'text-gray-700'}`}>
+        {label}
+      </p>
+      <pre
+        className={`p-3 rounded-lg border overflow-x-auto max-h-64 whitespace-pre-wrap ${
+          tone === 'error' ? 'bg-red-50 border-red-200 text-red-800' : 'bg-gray-50 border-gray-200 text-gray-700'
+        }`}
+      >
+        {value}
+      </pre>
+    </div>
+  );
+}
@@ -1,19 +1,23 @@
+export type PhaseType =
+  | 'competitor'
+  | 'strategy'
+  | 'ux'
+  | 'system'
+  | 'data'
+  | 'api'
+  | 'ui'
+  | 'prompts'
+  | 'qa'
+  | 'techwriter'
+  | 'critic'
+  | 'composer';
+
 export type AgentPhase = {
-  type:
-    | 'competitor'
-    | 'strategy'
-    | 'ux'
-    | 'system'
-    | 'data'
-    | 'api'
-    | 'ui'
-    | 'prompts'
-    | 'qa'
-    | 'techwriter'
-    | 'critic'
-    | 'composer';
+  type: PhaseType;
   name: string;
   description: string;
+  // Phases whose artifacts this phase reads; it is scheduled once they complete
+  dependsOn: PhaseType[];
   systemPrompt: string;
   schema: any;
 };
@@ -35,6 +39,7 @@ export const AGENT_PHASES: AgentPhase[] = [
     name: 'Research Analyst',
     description:
       'Analyze competitor products, user reviews, and market trends to extract structured insights',
+    dependsOn: [],
     systemPrompt:
       GLOBAL_GUARDRAILS +
       `You are a Research Analyst. Your goal is to extract structured insight from competitor data and user feedback.
@@ -112,6 +117,7 @@ Output market signals, competitor matrix, opportunities, and market risk score.
     name: 'Strategy Architect',
     description:
       'Defines market strategy, feature prioritization, risk assessment, and monetization',
+    dependsOn: ['competitor'],
     systemPrompt:
       GLOBAL_GUARDRAILS +
       `You are a Strategy Architect. Using prior research data, output a realistic business and product plan.
@@ -248,6 +254,7 @@ JSON only.`,
     type: 'ux',
     name: 'UX Architect',
     description: 'Designs information architecture, user flows, and auth strategy',
+    dependsOn: ['strategy'],
     systemPrompt:
       GLOBAL_GUARDRAILS +
       `You are a UX Architect. Design the experience using IA and 3–5 primary flows with step lists,
@@ -294,6 +301,7 @@ Include accessibility notes and empty/error states. JSON only.`,
     type: 'system',
     name: 'System Architect',
     description: 'Defines overall system design, services, infrastructure, and scalability',
+    dependsOn: ['strategy', 'ux'],
     systemPrompt:
       GLOBAL_GUARDRAILS +
       `You are a System Architect. Follow company architecture standards: layered service separation, async jobs, metrics & logging, observability via OpenTelemetry, CI/CD hooks.
@@ -395,6 +403,7 @@ Record all vendor decisions in the Decision Ledger. JSON only.`,
     type: 'data',
     name: 'Data Modeler',
     description: 'Designs database schema, entities, and relationships',
+    dependsOn: ['ux', 'system'],
     systemPrompt:
       GLOBAL_GUARDRAILS +
       `You are a Data Modeler. Output DB choice and entities with columns & constraints, migrations list,
@@ -444,6 +453,7 @@ JSON only.`,
     type: 'api',
     name: 'API Designer',
     description: 'Creates API specification and endpoint design',
+    dependsOn: ['system', 'data'],
     systemPrompt:
       GLOBAL_GUARDRAILS +
       `You are an API Designer. Produce an OpenAPI 3.1 YAML as a string field,
@@ -474,6 +484,7 @@ JSON only.`,
     type: 'ui',
     name: 'UI Design System',
     description: 'Defines design tokens, components, and visual system',
+    dependsOn: ['strategy', 'ux'],
     systemPrompt:
       GLOBAL_GUARDRAILS +
       `You are a UI/UX Designer. Produce a light-theme AA design system: color tokens,
@@ -530,6 +541,7 @@ Include loading/skeleton patterns and motion durations. Avoid purple/indigo unle
     type: 'prompts',
     name: 'Prompt Engineer',
     description: 'Generates comprehensive implementation prompts for Bolt/Cursor covering all phases',
+    dependsOn: ['strategy', 'ux', 'system', 'data', 'api', 'ui'],
     systemPrompt:
       GLOBAL_GUARDRAILS +
       `You are a Prompt Engineer. Generate 8-12 prompts for BOTH Bolt and Cursor (same prompts for both tools).
@@ -609,6 +621,7 @@ JSON only.`,
     type: 'qa',
     name: 'QA Manager',
     description: 'Defines quality assurance workflows for CI/CD',
+    dependsOn: ['strategy', 'system', 'api', 'ui'],
     systemPrompt:
       GLOBAL_GUARDRAILS +
       `You are a QA Manager. Define quality assurance workflows for CI/CD.
@@ -696,6 +709,7 @@ JSON only.`,
     type: 'techwriter',
     name: 'Technical Writer',
     description: 'Generates developer documentation templates',
+    dependsOn: ['system', 'data', 'api'],
     systemPrompt:
       GLOBAL_GUARDRAILS +
       `You are a Technical Writer. Generate developer documentation templates.
@@ -755,6 +769,7 @@ JSON only.`,
     name: 'Critic/QA',
     description:
       'Check cross-phase consistency, catch missing edge cases, and request targeted revisions',
+    dependsOn: ['competitor', 'strategy', 'ux', 'system', 'data', 'api', 'ui', 'prompts', 'qa', 'techwriter'],
     systemPrompt:
       GLOBAL_GUARDRAILS +
       `You are a Critic/QA. Compare all artifacts for contradictions, missing edge cases, and unrealistic assumptions.
@@ -784,6 +799,7 @@ JSON only.`,
     type: 'composer',
     name: 'Composer',
     description: 'Merge all artifacts into comprehensive deliverables',
+    dependsOn: ['competitor', 'strategy', 'ux', 'system', 'data', 'api', 'ui', 'prompts', 'qa', 'techwriter', 'critic'],
     systemPrompt:
       GLOBAL_GUARDRAILS +
       `You are the Composer. Merge all artifacts into multiple professional deliverables:
@@ -824,6 +840,44 @@ JSON only.`,
   }
 ];
 
+/**
+ * All phases a phase transitively depends on, in AGENT_PHASES order.
+ */
+export function getPhaseAncestors(type: PhaseType): PhaseType[] {
+  const byType = new Map(AGENT_PHASES.map((p) => [p.type, p]));
+  const seen = new Set<PhaseType>();
+  const stack = [...(byType.get(type)?.dependsOn ?? [])];
+
+  while (stack.length > 0) {
+    const next = stack.pop()!;
+    if (seen.has(next)) continue;
+    seen.add(next);
+    stack.push(...(byType.get(next)?.dependsOn ?? []));
+  }
+
+  return AGENT_PHASES.map((p) => p.type).filter((t) => seen.has(t));
+}
+
+/**
+ * All phases that transitively depend on a phase, in AGENT_PHASES order.
+ */
+export function getPhaseDescendants(type: PhaseType): PhaseType[] {
+  const seen = new Set<PhaseType>();
+  const stack: PhaseType[] = [type];
+
+  while (stack.length > 0) {
+    const next = stack.pop()!;
+    for (const phase of AGENT_PHASES) {
+      if (phase.dependsOn.includes(next) && !seen.has(phase.type)) {
+        seen.add(phase.type);
+        stack.push(phase.type);
+      }
+    }
+  }
+
+  return AGENT_PHASES.map((p) => p.type).filter((t) => seen.has(t));
+}
+
 export function buildAgentPrompt(
   phase: AgentPhase,
   projectContext: string,
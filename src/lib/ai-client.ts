@@ -1,19 +1,123 @@
 import Ajv from 'ajv';
+import { callMockProvider } from './mock-provider';
+import { PROVIDERS, type AIProvider } from './providers';
+import { rateLimiterFor } from './rate-limiter';
+import type { JSONSchema } from './structured-output';
 
-const ajv = new Ajv({ allErrors: true });
+export type { AIProvider } from './providers';
 
-export type AIProvider = 'openai' | 'anthropic';
+const ajv = new Ajv({ allErrors: true });
 
 export type AIMessage = {
   role: 'system' | 'user' | 'assistant';
   content: string;
 };
 
+export type AIUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+/**
+ * One entry of a fallback chain; without a model the proxy picks the
+ * provider's default.
+ */
+export type ModelFallback = {
+  provider: AIProvider;
+  model?: string;
+};
+
 export type AIResponse = {
   content: string;
   model: string;
+  usage: AIUsage;
+  // The provider that answered; set by callAI, differs from the requested one after a fallback
+  provider?: AIProvider;
+  // The model that was asked of `provider` (`model` may be a dated version of
+  // it); undefined when the provider's default was used
+  requestedModel?: string;
+  // Chain entries that failed before this one answered, primary first
+  fallbackFrom?: Array<ModelFallback & { error: string }>;
+  // The provider's stop_reason / finish_reason, when the proxy reports one
+  stopReason?: string | null;
+  // The reply hit maxTokens and is cut off
+  truncated?: boolean;
+};
+
+export type AICallOptions = {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  retries?: number;
+  topP?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  phase?: string;
+  // JSON Schema the reply must match; enforced natively where the provider supports it
+  schema?: JSONSchema;
+  // Send no JSON mode or schema hints, e.g. for the continuation of a cut-off
+  // reply, which is not a JSON document on its own
+  plainText?: boolean;
+  // Tried in order once the primary's retryable failures are exhausted
+  fallbacks?: ModelFallback[];
 };
 
+/**
+ * Anything that answers a chat request like callAI does. The orchestrator
+ * takes one so tests and offline runs can swap out the edge-function proxy.
+ */
+export type AITransport = (
+  messages: AIMessage[],
+  provider: AIProvider,
+  options?: AICallOptions
+) => Promise<AIResponse>;
+
+/**
+ * Thrown when a call is aborted through its AbortSignal (as opposed to timing out).
+ */
+export class CancelledError extends Error {
+  constructor(message = 'Planning cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Failure classes the ai-proxy reports, plus the two the client detects itself
+ * (`timeout`, `network`).
+ */
+export type AIErrorCode =
+  | 'auth'
+  | 'rate_limit'
+  | 'overloaded'
+  | 'bad_request'
+  | 'content_filter'
+  | 'server_error'
+  | 'timeout'
+  | 'network';
+
+const RETRYABLE_CODES: AIErrorCode[] = ['rate_limit', 'overloaded', 'server_error', 'timeout', 'network'];
+
+/**
+ * A failed call, classified. Only transient classes are retried; an auth,
+ * bad_request or content_filter failure comes back on the first attempt.
+ */
+export class AIProxyError extends Error {
+  constructor(
+    message: string,
+    public readonly code: AIErrorCode,
+    // How long the provider asked callers to wait, when it said
+    public readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'AIProxyError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
 export function validateJSON(
   data: any,
   schema: any
@@ -31,31 +135,49 @@ export function validateJSON(
   return { valid: true, errors: [] };
 }
 
+/**
+ * Where the `ai-proxy` edge function lives. The browser reads it from the
+ * Vite env; Node callers (the CLI) pass it explicitly.
+ */
+export type ProxyConfig = {
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+};
+
 /**
  * Calls your Supabase edge function `ai-proxy` with provider hints that
- * reduce invalid JSON responses (OpenAI JSON mode, conservative temps).
+ * reduce invalid JSON responses (conservative temps, and native structured
+ * output where the provider has it). Each provider's hints come from its
+ * adapter in providers.ts:
+ *  - OpenAI: `options.schema` as a strict `json_schema` response format,
+ *    JSON mode when the schema can't be made strict
+ *  - Anthropic: `options.schema` as a forced tool call
+ *  - Others: JSON mode at most; parseJSONResponse handles the rest
+ *
+ * `options.model` selects the model; the proxy rejects models outside its
+ * allow-list and falls back to a per-provider default when omitted.
  *
- * The proxy should pass these through:
- *  - OpenAI: response_format: { type: "json_object" }, temperature/top_p
- *  - Anthropic: (no native json mode) – rely on system prompt guardrails
+ * Aborting `options.signal` cancels the in-flight request and any pending
+ * retries with a CancelledError.
+ *
+ * Failures are thrown as AIProxyError. Only the transient classes are retried:
+ * after the provider's Retry-After when it sent one, with exponential backoff
+ * otherwise. Every attempt first waits for the provider's shared token bucket
+ * (rate-limiter.ts).
+ *
+ * When retries can't get past a transient failure (rate limit, overload,
+ * server error, timeout), the call moves on to the next `options.fallbacks`
+ * entry; `provider`, `model` and `fallbackFrom` on the response say who
+ * answered in the end. Non-retryable failures are thrown straight away.
+ *
+ * The `mock` provider never reaches the proxy in replay mode; `options.phase`
+ * is part of its fixture key.
  */
 export async function callAI(
   messages: AIMessage[],
   provider: AIProvider = 'anthropic',
-  options: {
-    temperature?: number;
-    maxTokens?: number;
-    retries?: number;
-    topP?: number;
-    timeoutMs?: number;
-  } = {}
+  options: AICallOptions = {}
 ): Promise<AIResponse> {
-  const temperature = options.temperature ?? 0.2;
-  const maxTokens = options.maxTokens ?? 4000;
-  const maxRetries = options.retries ?? 3;
-  const topP = options.topP ?? 1.0;
-  const timeoutMs = options.timeoutMs ?? 60_000;
-
   const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
   const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
@@ -63,61 +185,221 @@ export async function callAI(
     throw new Error('Missing Supabase environment variables');
   }
 
-  const apiUrl = `${supabaseUrl}/functions/v1/ai-proxy`;
+  return callWithFallbacks({ supabaseUrl, supabaseAnonKey }, messages, provider, options);
+}
+
+/**
+ * Maps a complete reply produced under the provider's hints for `schema` back
+ * onto the schema (e.g. drops the nulls OpenAI strict mode adds for optional
+ * properties). callAI does this itself except for cut-off replies, which are
+ * normalized once their continuations have been stitched on.
+ */
+export function normalizeContent(provider: AIProvider, content: string, schema: JSONSchema): string {
+  const adapter = PROVIDERS[provider];
+  return adapter.normalizeContent ? adapter.normalizeContent(content, schema) : content;
+}
+
+/**
+ * Same as callAI, bound to an explicit proxy location instead of the Vite env.
+ */
+export function createProxyTransport(config: ProxyConfig): AITransport {
+  return (messages, provider, options) => callWithFallbacks(config, messages, provider, options);
+}
+
+async function callWithFallbacks(
+  config: ProxyConfig,
+  messages: AIMessage[],
+  provider: AIProvider,
+  options: AICallOptions = {}
+): Promise<AIResponse> {
+  const primary: ModelFallback = { provider, model: options.model };
+  // An entry repeating an earlier one would only fail the same way again
+  const chain = [primary, ...(options.fallbacks ?? [])].filter(
+    (entry, i, all) =>
+      all.findIndex((e) => e.provider === entry.provider && e.model === entry.model) === i
+  );
+  const failed: Array<ModelFallback & { error: string }> = [];
+
+  for (const [index, entry] of chain.entries()) {
+    try {
+      const response = await callProxy(config, messages, entry.provider, {
+        ...options,
+        model: entry.model
+      });
+      return {
+        ...response,
+        model: response.model || entry.model || '',
+        provider: entry.provider,
+        requestedModel: entry.model,
+        ...(failed.length > 0 ? { fallbackFrom: failed } : {})
+      };
+    } catch (error) {
+      const exhausted = error instanceof AIProxyError && error.retryable;
+      if (!exhausted || index === chain.length - 1) throw error;
+      failed.push({ ...entry, error: error.message });
+    }
+  }
+
+  throw new Error('Fallback chain is empty');
+}
 
-  let lastError: Error | null = null;
+type ProxyErrorReply = {
+  error?: string;
+  code?: AIErrorCode;
+  retryAfterSeconds?: number | null;
+};
+
+/**
+ * Read a failed proxy response. Replies without a code (an older proxy, or
+ * the Supabase gateway itself) are classified by status.
+ */
+async function proxyErrorFrom(response: Response): Promise<AIProxyError> {
+  const text = await response.text();
+  let reply: ProxyErrorReply = {};
+  try {
+    reply = JSON.parse(text) ?? {};
+  } catch {
+    // not JSON; keep the raw text
+  }
+
+  const code: AIErrorCode =
+    reply.code ??
+    (response.status === 401 || response.status === 403
+      ? 'auth'
+      : response.status === 429
+      ? 'rate_limit'
+      : response.status >= 500
+      ? 'server_error'
+      : 'bad_request');
+
+  const headerSeconds = Number(response.headers.get('retry-after'));
+  const retryAfterSeconds = reply.retryAfterSeconds ?? (headerSeconds > 0 ? headerSeconds : null);
+
+  return new AIProxyError(
+    `AI proxy error (${code}): ${reply.error ?? text}`,
+    code,
+    retryAfterSeconds === null ? null : retryAfterSeconds * 1000
+  );
+}
+
+type ProxyReply = {
+  content?: string;
+  model?: string;
+  usage?: { inputTokens?: number; outputTokens?: number };
+  stopReason?: string | null;
+  truncated?: boolean;
+};
+
+async function callProxy(
+  config: ProxyConfig,
+  messages: AIMessage[],
+  provider: AIProvider,
+  options: AICallOptions = {}
+): Promise<AIResponse> {
+  if (provider === 'mock') {
+    // Recording keeps the routed model unless it is the `mock` placeholder
+    return callMockProvider(messages, options.phase, (upstream, model) =>
+      callProxy(config, messages, upstream, {
+        ...options,
+        model: model ?? (options.model === 'mock' ? undefined : options.model)
+      })
+    );
+  }
+
+  const temperature = options.temperature ?? 0.2;
+  const maxTokens = options.maxTokens ?? 4000;
+  const maxRetries = options.retries ?? 3;
+  const topP = options.topP ?? 1.0;
+  const timeoutMs = options.timeoutMs ?? 60_000;
+  const signal = options.signal;
+
+  const apiUrl = `${config.supabaseUrl}/functions/v1/ai-proxy`;
+  const adapter = PROVIDERS[provider];
+  const limiter = rateLimiterFor(provider);
+
+  let lastError: AIProxyError | null = null;
 
   for (let attempt = 0; attempt < maxRetries; attempt++) {
+    if (signal?.aborted) throw new CancelledError();
+
+    const controller = new AbortController();
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
+
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+      await limiter.take(signal);
+      timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
       const response = await fetch(apiUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${supabaseAnonKey}`
+          Authorization: `Bearer ${config.supabaseAnonKey}`
         },
         body: JSON.stringify({
           provider,
+          model: options.model,
           messages,
           temperature,
           topP,
           maxTokens,
           // Hints for the proxy to pass down to providers
-          providerHints: buildProviderHints(provider)
+          providerHints: options.plainText ? {} : adapter.hints(options.schema)
         }),
         signal: controller.signal
       });
 
-      clearTimeout(timeoutId);
-
       if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`AI proxy error: ${errorText}`);
+        throw await proxyErrorFrom(response);
       }
 
-      const data = await response.json();
+      const data = (await response.json()) as ProxyReply;
+      const content = String(data.content ?? '');
       return {
-        content: String(data.content ?? ''),
-        model: String(data.model ?? '')
+        content:
+          options.schema && !data.truncated ? normalizeContent(provider, content, options.schema) : content,
+        model: String(data.model ?? ''),
+        usage: {
+          inputTokens: Number(data.usage?.inputTokens ?? 0),
+          outputTokens: Number(data.usage?.outputTokens ?? 0)
+        },
+        stopReason: data.stopReason ?? null,
+        truncated: Boolean(data.truncated)
       };
     } catch (error: any) {
-      // Normalize abort
-      let err: Error;
-      if (error?.name === 'AbortError') {
-        err = new Error(`Request timeout after ${Math.round(timeoutMs / 1000)}s`);
+      // Caller cancellation is final; never retry it
+      if (signal?.aborted) throw new CancelledError();
+
+      if (error instanceof AIProxyError) {
+        lastError = error;
+      } else if (error?.name === 'AbortError') {
+        lastError = new AIProxyError(
+          `Request timeout after ${Math.round(timeoutMs / 1000)}s`,
+          'timeout'
+        );
       } else {
-        err = error instanceof Error ? error : new Error('Unknown error');
+        // fetch rejects only when the proxy can't be reached
+        lastError = new AIProxyError(
+          `AI proxy unreachable: ${error instanceof Error ? error.message : String(error)}`,
+          'network'
+        );
       }
-      lastError = err;
 
-      // Exponential backoff with jitter
-      if (attempt < maxRetries - 1) {
-        const backoffMs = (attempt + 1) * 1000 + Math.floor(Math.random() * 250);
-        await sleep(backoffMs);
-        continue;
+      if (!lastError.retryable || attempt === maxRetries - 1) throw lastError;
+
+      // Exponential backoff with jitter, or exactly what the provider asked for
+      const backoffMs =
+        lastError.retryAfterMs ?? 1000 * 2 ** attempt + Math.floor(Math.random() * 250);
+      if (lastError.code === 'rate_limit' || lastError.code === 'overloaded') {
+        // Every caller of this provider backs off, not just this one
+        limiter.pause(backoffMs);
+      } else {
+        await sleep(backoffMs, signal);
       }
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
     }
   }
 
@@ -165,29 +447,51 @@ export function parseJSONResponse(response: string): any {
   return JSON.parse(normalizedWhole);
 }
 
-/* ------------------------ helpers ------------------------ */
+/**
+ * Follow-up user message asking the model to finish a reply that was cut off
+ * at maxTokens; the cut-off reply goes before it as the assistant turn.
+ */
+export const CONTINUATION_PROMPT =
+  'Your previous reply was cut off because it reached the output limit. Continue it from exactly ' +
+  'the character where it stopped. Output only the remaining text: do not repeat anything, do not ' +
+  'start over, and do not use markdown code fences.';
 
-function sleep(ms: number) {
-  return new Promise((res) => setTimeout(res, ms));
-}
+// Shorter repeats are too likely to be legitimate text to strip; longer ones
+// aren't worth searching for
+const MIN_CONTINUATION_OVERLAP = 16;
+const MAX_CONTINUATION_OVERLAP = 2000;
 
 /**
- * Provider hints sent to the proxy to reduce invalid JSON.
- * Your edge function should pass these hints through to the model calls.
+ * Joins a cut-off reply and its continuation. Strips the code fences a model
+ * may wrap the continuation in, and the tail of the partial reply when the
+ * model repeats it.
  */
-function buildProviderHints(provider: AIProvider) {
-  if (provider === 'openai') {
-    return {
-      // For Chat Completions API:
-      response_format: { type: 'json_object' },
-      // Strong nudge not to include markdown fences:
-      forbid_markdown: true
-    };
+export function stitchContinuation(partial: string, continuation: string): string {
+  let next = continuation.replace(/^\s*```(?:json)?[ \t]*\n?/, '');
+  if (next.trimEnd().endsWith('```')) next = next.trimEnd().slice(0, -3);
+
+  const maxOverlap = Math.min(partial.length, next.length, MAX_CONTINUATION_OVERLAP);
+  for (let n = maxOverlap; n >= MIN_CONTINUATION_OVERLAP; n--) {
+    if (partial.endsWith(next.slice(0, n))) return partial + next.slice(n);
   }
-  // Anthropic has no native JSON mode; rely on system rules already present.
-  return {
-    forbid_markdown: true
-  };
+  return partial + next;
+}
+
+/* ------------------------ helpers ------------------------ */
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((res, rej) => {
+    if (signal?.aborted) return rej(new CancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      rej(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      res();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
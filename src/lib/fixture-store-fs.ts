@@ -0,0 +1,35 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { FixtureStore, MockFixture } from './mock-provider';
+
+/**
+ * Node-only fixture store: one `<key>.json` file per recorded response, so
+ * fixtures diff cleanly and can be committed next to the tests that use them.
+ * Do not import from browser code.
+ */
+export class FileFixtureStore implements FixtureStore {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async get(key: string): Promise<MockFixture | null> {
+    try {
+      const raw = await readFile(join(this.dir, `${key}.json`), 'utf8');
+      return JSON.parse(raw) as MockFixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async put(fixture: MockFixture): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(
+      join(this.dir, `${fixture.key}.json`),
+      `${JSON.stringify(fixture, null, 2)}\n`,
+      'utf8'
+    );
+  }
+}
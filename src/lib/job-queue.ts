@@ -0,0 +1,160 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PlanningJob, Project } from './supabase';
+
+// First retry waits this long; each further retry doubles it
+export const RETRY_BASE_MS = 30_000;
+
+/**
+ * - ok: keep going
+ * - cancel: the browser asked to stop this run
+ * - lost: another worker reclaimed the job (our heartbeats were too late)
+ */
+export type HeartbeatResult = 'ok' | 'cancel' | 'lost';
+
+/**
+ * planning_jobs access shared by the browser (enqueue, cancel) and the worker
+ * (claim, heartbeat, finish). Writes also keep projects.status in step so the
+ * browser only has to watch the project row.
+ *
+ * Worker-side updates are guarded by worker_id: once a job has been reclaimed,
+ * the previous holder can no longer change it.
+ */
+export class PlanningJobQueue {
+  private client: SupabaseClient;
+
+  constructor(client: SupabaseClient) {
+    this.client = client;
+  }
+
+  /**
+   * Queue a run for the project. A project that already has a queued or
+   * running job keeps that one, and the status that job gave it.
+   */
+  async enqueue(projectId: string): Promise<void> {
+    const { error } = await this.client.from('planning_jobs').insert({ project_id: projectId });
+    // 23505: unique violation on idx_planning_jobs_active_project
+    if (error?.code === '23505') return;
+    if (error) throw error;
+
+    await this.setProjectStatus(projectId, 'queued');
+  }
+
+  /**
+   * A queued job is cancelled outright; a running one is flagged and the
+   * worker stops it on its next heartbeat.
+   */
+  async requestCancel(projectId: string): Promise<void> {
+    const { data: queued, error: queuedError } = await this.client
+      .from('planning_jobs')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('project_id', projectId)
+      .eq('status', 'queued')
+      .select('id');
+    if (queuedError) throw queuedError;
+    if (queued && queued.length > 0) {
+      await this.setProjectStatus(projectId, 'cancelled');
+      return;
+    }
+
+    const { data: running, error: runningError } = await this.client
+      .from('planning_jobs')
+      .update({ cancel_requested: true, updated_at: new Date().toISOString() })
+      .eq('project_id', projectId)
+      .eq('status', 'running')
+      .select('id');
+    if (runningError) throw runningError;
+    if (running && running.length > 0) {
+      await this.setProjectStatus(projectId, 'cancelling');
+    }
+  }
+
+  /**
+   * Claim the oldest runnable job, including jobs whose worker stopped sending
+   * heartbeats for `staleSeconds`. See claim_planning_job in the migrations.
+   */
+  async claim(workerId: string, staleSeconds: number): Promise<PlanningJob | null> {
+    const { data, error } = await this.client.rpc('claim_planning_job', {
+      p_worker_id: workerId,
+      p_stale_seconds: staleSeconds
+    });
+
+    if (error) throw error;
+    const rows = (data ?? []) as PlanningJob[];
+    return rows[0] ?? null;
+  }
+
+  async heartbeat(job: PlanningJob): Promise<HeartbeatResult> {
+    const { data, error } = await this.client
+      .from('planning_jobs')
+      .update({ heartbeat_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .eq('worker_id', job.worker_id)
+      .eq('status', 'running')
+      .select('cancel_requested')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return 'lost';
+    return data.cancel_requested ? 'cancel' : 'ok';
+  }
+
+  async complete(job: PlanningJob): Promise<void> {
+    await this.finish(job, { status: 'completed' });
+  }
+
+  async cancelled(job: PlanningJob): Promise<void> {
+    await this.finish(job, { status: 'cancelled' });
+  }
+
+  /**
+   * Hand the job back without counting the attempt (worker shutting down).
+   */
+  async release(job: PlanningJob): Promise<void> {
+    await this.finish(job, {
+      status: 'queued',
+      attempts: Math.max(0, job.attempts - 1),
+      worker_id: null
+    });
+    await this.setProjectStatus(job.project_id, 'queued');
+  }
+
+  /**
+   * Record a failed attempt. Retryable failures go back on the queue with
+   * exponential backoff until max_attempts is used up.
+   */
+  async fail(job: PlanningJob, message: string, retryable: boolean): Promise<'retry' | 'failed'> {
+    if (retryable && job.attempts < job.max_attempts) {
+      const delayMs = RETRY_BASE_MS * 2 ** (job.attempts - 1);
+      await this.finish(job, {
+        status: 'queued',
+        worker_id: null,
+        last_error: message,
+        run_after: new Date(Date.now() + delayMs).toISOString()
+      });
+      await this.setProjectStatus(job.project_id, 'queued');
+      return 'retry';
+    }
+
+    await this.finish(job, { status: 'failed', last_error: message });
+    return 'failed';
+  }
+
+  private async finish(job: PlanningJob, patch: Partial<PlanningJob>): Promise<void> {
+    const { error } = await this.client
+      .from('planning_jobs')
+      .update({ ...patch, updated_at: new Date().toISOString() })
+      .eq('id', job.id)
+      .eq('worker_id', job.worker_id);
+
+    if (error) throw error;
+  }
+
+  private async setProjectStatus(projectId: string, status: Project['status']): Promise<void> {
+    const { error } = await this.client
+      .from('projects')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', projectId);
+
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,194 @@
+import { AGENT_PHASES, type PhaseType } from './agents';
+import type { PlanningPhase, PlanningRun } from './supabase';
+
+export type DiffKind = 'added' | 'removed' | 'changed';
+
+export type DiffEntry = {
+  // e.g. `entities[users].columns[email].type`
+  path: string;
+  kind: DiffKind;
+  before?: unknown;
+  after?: unknown;
+};
+
+export type PhaseDiff = {
+  phase: PhaseType;
+  // Added/removed: the phase only exists on one side
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  entries: DiffEntry[];
+};
+
+// Fields that identify an item in an array of objects, in order of preference
+const IDENTITY_KEYS = ['id', 'name', 'title', 'feature', 'endpoint', 'event', 'check'];
+
+/**
+ * Structural diff of two JSON values: one entry per added, removed or changed
+ * path. Arrays of objects are matched on an identity field (name, title,
+ * feature, ...) so reordering isn't reported; arrays of scalars are compared
+ * as sets; anything else is compared by index.
+ */
+export function diffJSON(before: unknown, after: unknown, path = ''): DiffEntry[] {
+  if (isEqual(before, after)) return [];
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return diffArrays(before, after, path);
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const entries: DiffEntry[] = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (!(key in before)) entries.push({ path: childPath, kind: 'added', after: after[key] });
+      else if (!(key in after)) entries.push({ path: childPath, kind: 'removed', before: before[key] });
+      else entries.push(...diffJSON(before[key], after[key], childPath));
+    }
+    return entries;
+  }
+
+  return [{ path: path || '(root)', kind: 'changed', before, after }];
+}
+
+/**
+ * Diff two outputs of the same phase. API outputs also get an `endpoints`
+ * list parsed from the OpenAPI YAML, so endpoint changes show up as paths
+ * rather than as one changed string.
+ */
+export function diffPhaseOutputs(type: PhaseType, before: unknown, after: unknown): DiffEntry[] {
+  return diffJSON(diffable(type, before), diffable(type, after));
+}
+
+/**
+ * Per-phase diff between two plans (lists of phase rows), in AGENT_PHASES order.
+ */
+export function diffPlans(before: PlanningPhase[], after: PlanningPhase[]): PhaseDiff[] {
+  return AGENT_PHASES.flatMap((agent): PhaseDiff[] => {
+    const a = before.find((p) => p.phase_type === agent.type);
+    const b = after.find((p) => p.phase_type === agent.type);
+    if (!a && !b) return [];
+    if (!a) return [{ phase: agent.type, status: 'added', entries: [] }];
+    if (!b) return [{ phase: agent.type, status: 'removed', entries: [] }];
+
+    const entries = a.id === b.id ? [] : diffPhaseOutputs(agent.type, a.output, b.output);
+    return [{ phase: agent.type, status: entries.length > 0 ? 'changed' : 'unchanged', entries }];
+  });
+}
+
+/**
+ * The plan as it stood when `run` finished: for each phase type, the highest
+ * version created by then. `rows` is every phase row of the project.
+ */
+export function planAfterRun(rows: PlanningPhase[], run: PlanningRun): PlanningPhase[] {
+  const cutoff = Date.parse(run.completed_at ?? new Date().toISOString());
+  const latest = new Map<string, PlanningPhase>();
+
+  for (const row of rows) {
+    if (row.version == null || Date.parse(row.created_at) > cutoff) continue;
+    const current = latest.get(row.phase_type);
+    if (!current || row.version > (current.version ?? 0)) latest.set(row.phase_type, row);
+  }
+
+  return AGENT_PHASES.map((p) => latest.get(p.type)).filter(
+    (p): p is PlanningPhase => Boolean(p)
+  );
+}
+
+/**
+ * `METHOD /path` for every operation under `paths:` in an OpenAPI YAML
+ * document. A line scanner rather than a YAML parser: enough for the specs
+ * the API Designer writes.
+ */
+export function extractEndpoints(yaml: string): string[] {
+  const endpoints: string[] = [];
+  const methods = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+  let inPaths = false;
+  let pathIndent = -1;
+  let currentPath: string | null = null;
+
+  for (const line of yaml.split('\n')) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+    const indent = line.length - line.trimStart().length;
+    const key = line.trim().replace(/:.*$/, '').replace(/^['"]|['"]$/g, '');
+
+    if (indent === 0) {
+      inPaths = key === 'paths';
+      pathIndent = -1;
+      currentPath = null;
+      continue;
+    }
+    if (!inPaths) continue;
+
+    if (key.startsWith('/') && (pathIndent < 0 || indent === pathIndent)) {
+      pathIndent = indent;
+      currentPath = key;
+    } else if (currentPath && indent > pathIndent && methods.includes(key.toLowerCase())) {
+      endpoints.push(`${key.toUpperCase()} ${currentPath}`);
+    }
+  }
+
+  return endpoints;
+}
+
+function diffable(type: PhaseType, output: unknown): unknown {
+  if (type === 'api' && isObject(output) && typeof output.openApiYaml === 'string') {
+    return { ...output, endpoints: extractEndpoints(output.openApiYaml) };
+  }
+  return output;
+}
+
+function diffArrays(before: unknown[], after: unknown[], path: string): DiffEntry[] {
+  if ([...before, ...after].every((v) => !isObject(v) && !Array.isArray(v))) {
+    const removed = before.filter((v) => !after.some((w) => isEqual(v, w)));
+    const added = after.filter((v) => !before.some((w) => isEqual(v, w)));
+    return [
+      ...removed.map((v) => ({ path: `${path}[]`, kind: 'removed' as const, before: v })),
+      ...added.map((v) => ({ path: `${path}[]`, kind: 'added' as const, after: v }))
+    ];
+  }
+
+  const key = identityKey(before, after);
+  if (!key) {
+    const entries: DiffEntry[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      const itemPath = `${path}[${i}]`;
+      if (i >= before.length) entries.push({ path: itemPath, kind: 'added', after: after[i] });
+      else if (i >= after.length) entries.push({ path: itemPath, kind: 'removed', before: before[i] });
+      else entries.push(...diffJSON(before[i], after[i], itemPath));
+    }
+    return entries;
+  }
+
+  const id = (item: unknown) => String((item as Record<string, unknown>)[key]);
+  const entries: DiffEntry[] = [];
+  for (const item of before) {
+    const match = after.find((other) => id(other) === id(item));
+    const itemPath = `${path}[${id(item)}]`;
+    if (!match) entries.push({ path: itemPath, kind: 'removed', before: item });
+    else entries.push(...diffJSON(item, match, itemPath));
+  }
+  for (const item of after) {
+    if (!before.some((other) => id(other) === id(item))) {
+      entries.push({ path: `${path}[${id(item)}]`, kind: 'added', after: item });
+    }
+  }
+  return entries;
+}
+
+/**
+ * First identity field that every item has as a string, unique within each side.
+ */
+function identityKey(before: unknown[], after: unknown[]): string | null {
+  const identifies = (items: unknown[], key: string) =>
+    items.every((item) => isObject(item) && typeof item[key] === 'string') &&
+    new Set(items.map((item) => (item as Record<string, unknown>)[key])).size === items.length;
+
+  return IDENTITY_KEYS.find((key) => identifies(before, key) && identifies(after, key)) ?? null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { afterEach, test } from 'node:test';
+import type { AIMessage, AIResponse } from './ai-client';
+import {
+  callMockProvider,
+  configureMockProvider,
+  fixtureKey,
+  InMemoryFixtureStore
+} from './mock-provider';
+
+const messages: AIMessage[] = [
+  { role: 'system', content: 'You are a data modeler.' },
+  { role: 'user', content: 'Model a todo app.' }
+];
+
+const truncatedReply: AIResponse = {
+  content: '{"entities": [{"name": "todos", "col',
+  model: 'gpt-4o-mini-2024-07-18',
+  usage: { inputTokens: 120, outputTokens: 4000 },
+  stopReason: 'length',
+  truncated: true
+};
+
+afterEach(() => configureMockProvider(null));
+
+test('a truncated reply replays as truncated', async () => {
+  const store = new InMemoryFixtureStore();
+  configureMockProvider({ mode: 'record', store, upstream: { provider: 'openai' } });
+  const recorded = await callMockProvider(messages, 'data', async () => truncatedReply);
+  assert.equal(recorded, truncatedReply);
+
+  const [fixture] = store.list();
+  assert.equal(fixture.stopReason, 'length');
+  assert.equal(fixture.truncated, true);
+
+  configureMockProvider({ mode: 'replay', store });
+  const replayed = await callMockProvider(messages, 'data', () => {
+    throw new Error('replay must not forward');
+  });
+  assert.deepEqual(replayed, {
+    content: truncatedReply.content,
+    model: truncatedReply.model,
+    usage: truncatedReply.usage,
+    stopReason: 'length',
+    truncated: true
+  });
+});
+
+test('fixtures recorded without a stop reason replay as complete', async () => {
+  const store = new InMemoryFixtureStore([
+    {
+      key: fixtureKey('data', messages),
+      phase: 'data',
+      content: '{}',
+      model: 'gpt-4o-mini',
+      usage: { inputTokens: 1, outputTokens: 1 },
+      recordedAt: '2025-11-01T00:00:00.000Z'
+    }
+  ]);
+
+  configureMockProvider({ mode: 'replay', store });
+  const replayed = await callMockProvider(messages, 'data', () => {
+    throw new Error('replay must not forward');
+  });
+  assert.equal(replayed.truncated, false);
+  assert.equal(replayed.stopReason, null);
+});
@@ -0,0 +1,129 @@
+import type { AIMessage, AIProvider, AIResponse, AIUsage } from './ai-client';
+
+/**
+ * A recorded model response, keyed by phase and a hash of the prompt messages.
+ */
+export type MockFixture = {
+  key: string;
+  phase: string;
+  content: string;
+  model: string;
+  usage: AIUsage;
+  // Replayed as recorded, so a cut-off reply triggers the same continuations;
+  // missing on fixtures recorded before they were saved
+  stopReason?: string | null;
+  truncated?: boolean;
+  recordedAt: string;
+};
+
+export interface FixtureStore {
+  get(key: string): Promise<MockFixture | null>;
+  put(fixture: MockFixture): Promise<void>;
+}
+
+/**
+ * - record: forward to a real provider and save every response as a fixture
+ * - replay: serve fixtures only; a missing fixture is an error, never a network call
+ */
+export type MockProviderConfig =
+  | {
+      mode: 'record';
+      store: FixtureStore;
+      upstream: { provider: Exclude<AIProvider, 'mock'>; model?: string };
+    }
+  | {
+      mode: 'replay';
+      store: FixtureStore;
+    };
+
+export class InMemoryFixtureStore implements FixtureStore {
+  private fixtures = new Map<string, MockFixture>();
+
+  constructor(fixtures: MockFixture[] = []) {
+    for (const f of fixtures) this.fixtures.set(f.key, f);
+  }
+
+  async get(key: string): Promise<MockFixture | null> {
+    return this.fixtures.get(key) ?? null;
+  }
+
+  async put(fixture: MockFixture): Promise<void> {
+    this.fixtures.set(fixture.key, fixture);
+  }
+
+  list(): MockFixture[] {
+    return Array.from(this.fixtures.values());
+  }
+}
+
+let mockConfig: MockProviderConfig | null = null;
+
+/**
+ * Set how the `mock` provider answers. Pass null to disable it again.
+ */
+export function configureMockProvider(config: MockProviderConfig | null): void {
+  mockConfig = config;
+}
+
+export function fixtureKey(phase: string | undefined, messages: AIMessage[]): string {
+  return `${phase || 'call'}-${hashString(JSON.stringify(messages))}`;
+}
+
+/**
+ * Answer a `mock` provider call. `forward` performs the real call in record mode.
+ */
+export async function callMockProvider(
+  messages: AIMessage[],
+  phase: string | undefined,
+  forward: (provider: AIProvider, model?: string) => Promise<AIResponse>
+): Promise<AIResponse> {
+  if (!mockConfig) {
+    throw new Error('Mock provider is not configured; call configureMockProvider first');
+  }
+
+  const key = fixtureKey(phase, messages);
+
+  if (mockConfig.mode === 'replay') {
+    const fixture = await mockConfig.store.get(key);
+    if (!fixture) {
+      throw new Error(`No mock fixture for ${phase || 'call'} (key ${key}); record it first`);
+    }
+    return {
+      content: fixture.content,
+      model: fixture.model,
+      usage: fixture.usage,
+      stopReason: fixture.stopReason ?? null,
+      truncated: fixture.truncated ?? false
+    };
+  }
+
+  const response = await forward(mockConfig.upstream.provider, mockConfig.upstream.model);
+  await mockConfig.store.put({
+    key,
+    phase: phase || 'call',
+    content: response.content,
+    model: response.model,
+    usage: response.usage,
+    stopReason: response.stopReason ?? null,
+    truncated: Boolean(response.truncated),
+    recordedAt: new Date().toISOString()
+  });
+  return response;
+}
+
+/**
+ * cyrb53: fast, stable 53-bit string hash. Not cryptographic; only used to
+ * name fixtures, so collisions just mean a re-record.
+ */
+function hashString(input: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
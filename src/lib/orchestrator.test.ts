@@ -0,0 +1,318 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { AGENT_PHASES, type PhaseType } from './agents';
+import type { AICallOptions, AIMessage, AIResponse, AITransport } from './ai-client';
+import { AgentOrchestrator } from './orchestrator';
+import { InMemoryPlanStore } from './plan-store';
+import type { OrchestrationEvent } from './progress-events';
+import { DEFAULT_MODELS } from './routing';
+import type { JSONSchema } from './structured-output';
+import type { PlanningPhase, Project } from './supabase';
+
+type Call = {
+  // The phase whose prompt this is, or 'check' for a revision check
+  phase: PhaseType | 'check';
+  // Calls for the same phase (or checks) so far, including this one
+  n: number;
+  messages: AIMessage[];
+  options?: AICallOptions;
+};
+
+// Return a reply (or just its content), or undefined for the default plan output
+type Script = (call: Call) => string | Pick<AIResponse, 'content' | 'truncated'> | undefined;
+
+// The smallest value that matches a phase schema
+function sampleOutput(schema: JSONSchema, key = ''): PlanningPhase['output'] {
+  if (schema.enum) return schema.enum[0];
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([k, v]) => [k, sampleOutput(v, k)])
+      );
+    case 'array':
+      return Array.from({ length: Number(schema.minItems ?? 1) }, () => sampleOutput(schema.items ?? {}, key));
+    case 'number':
+    case 'integer':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return true;
+    default:
+      return `${key} value`.padEnd(Number(schema.minLength ?? 0), '.');
+  }
+}
+
+// Schema-valid output for a phase that also passes the quality checklist
+function planOutput(type: PhaseType): PlanningPhase['output'] {
+  const output = sampleOutput(AGENT_PHASES.find((p) => p.type === type)!.schema);
+  switch (type) {
+    case 'strategy':
+      output.features = { must: ['Shared todo lists'] };
+      break;
+    case 'api':
+      output.openApiYaml = 'paths: {} # cursor pagination, error responses';
+      break;
+    case 'prompts':
+      output.bolt[0].title = 'Project Scaffolding';
+      output.bolt[output.bolt.length - 1].title = 'Smoke Test + Release Checklist';
+      break;
+    case 'critic':
+      output.revisionRequests = [];
+      output.severityIndex = 0;
+      break;
+  }
+  return output;
+}
+
+function fakeTransport(script: Script = () => undefined): AITransport {
+  const counts = new Map<string, number>();
+  return async (messages, _provider, options) => {
+    const phase = AGENT_PHASES.find((p) => p.systemPrompt === messages[0].content)?.type ?? 'check';
+    const n = (counts.get(phase) ?? 0) + 1;
+    counts.set(phase, n);
+
+    const reply =
+      script({ phase, n, messages, options }) ??
+      (phase === 'check'
+        ? JSON.stringify({ addressed: true, reason: '' })
+        : JSON.stringify(planOutput(phase)));
+    return {
+      ...(typeof reply === 'string' ? { content: reply } : reply),
+      model: DEFAULT_MODELS.openai,
+      usage: { inputTokens: 100, outputTokens: 100 }
+    };
+  };
+}
+
+function setup(script?: Script, fields: Partial<Project> = {}) {
+  const store = new InMemoryPlanStore();
+  const project = store.createProject({ name: 'Todos', description: 'A shared todo app', ...fields });
+  const events: OrchestrationEvent[] = [];
+  // Shared by every run, so call counts carry over into resumes
+  const transport = fakeTransport(script);
+  const orchestrator = () =>
+    new AgentOrchestrator(project.id, 'openai', (event) => events.push(event), {
+      store,
+      transport,
+      concurrency: 1
+    });
+  // "phase/kind" of every logged call, in order
+  const calls = () => store.llmCalls.map((c) => `${c.phase_type}/${c.kind}`);
+  return { store, project, events, orchestrator, calls };
+}
+
+test('invalid JSON is retried and a schema-invalid reply is repaired', async () => {
+  const { store, project, events, orchestrator, calls } = setup(({ phase, n }) => {
+    if (phase !== 'data') return undefined;
+    if (n === 1) return 'Here is the data model: {entities: [';
+    if (n === 2) return JSON.stringify({ entities: [] });
+    return undefined;
+  });
+
+  await orchestrator().runAllPhases();
+
+  assert.deepEqual(
+    calls().filter((c) => c.startsWith('data/')),
+    ['data/initial', 'data/initial', 'data/repair']
+  );
+  const dataEvents = events.filter(
+    (e) => 'phase' in e && e.phase === 'data' && ['validation_failed', 'phase_repair'].includes(e.type)
+  );
+  assert.deepEqual(
+    dataEvents.map((e) => e.type),
+    ['validation_failed', 'validation_failed', 'phase_repair']
+  );
+  const [data] = await store.listPhases(project.id, { current: true }).then((rows) =>
+    rows.filter((r) => r.phase_type === 'data')
+  );
+  assert.deepEqual(data.output, planOutput('data'));
+  assert.equal((await store.getProject(project.id))?.status, 'completed');
+});
+
+test('a cut-off tool call is asked again as plain text and continued', async () => {
+  const api = JSON.stringify(planOutput('api'));
+  const requests: Array<AICallOptions | undefined> = [];
+  const { store, project, orchestrator, calls } = setup(({ phase, n, options }) => {
+    if (phase !== 'api') return undefined;
+    requests.push(options);
+    // The forced tool call's partial input parses, but is missing fields
+    if (n === 1) return { content: JSON.stringify({ webhooks: [] }), truncated: true };
+    if (n === 2) return { content: api.slice(0, 40), truncated: true };
+    if (n === 3) return api.slice(40);
+    return undefined;
+  });
+
+  await orchestrator().runAllPhases();
+
+  assert.deepEqual(
+    calls().filter((c) => c.startsWith('api/')),
+    ['api/initial', 'api/initial', 'api/continuation']
+  );
+  assert.ok(requests[0]?.schema);
+  assert.deepEqual(
+    requests.slice(1).map((o) => [o?.plainText, o?.schema]),
+    [
+      [true, undefined],
+      [true, undefined]
+    ]
+  );
+  const current = await store.listPhases(project.id, { current: true });
+  assert.deepEqual(current.find((r) => r.phase_type === 'api')?.output, planOutput('api'));
+});
+
+test('a stitched strict-mode reply drops the nulls of optional properties', async () => {
+  // OpenAI strict mode sends every property, null when the schema makes it optional
+  const strategy = JSON.stringify({ ...planOutput('strategy'), marketSignals: null });
+  const { store, project, orchestrator, calls } = setup(({ phase, n }) => {
+    if (phase !== 'strategy') return undefined;
+    if (n === 1) return { content: strategy.slice(0, 40), truncated: true };
+    if (n === 2) return strategy.slice(40);
+    return undefined;
+  });
+
+  await orchestrator().runAllPhases();
+
+  assert.deepEqual(
+    calls().filter((c) => c.startsWith('strategy/')),
+    ['strategy/initial', 'strategy/continuation']
+  );
+  const current = await store.listPhases(project.id, { current: true });
+  const output = current.find((r) => r.phase_type === 'strategy')?.output;
+  assert.equal('marketSignals' in output, false);
+});
+
+test('a critic revision request re-runs only its phase, then critic and composer', async () => {
+  const { store, project, events, orchestrator, calls } = setup(({ phase, n }) => {
+    if (phase === 'critic' && n === 1) {
+      return JSON.stringify({
+        ...planOutput('critic'),
+        issues: ['No index on todos.user_id'],
+        revisionRequests: [{ targetPhase: 'data', request: 'Index todos.user_id' }],
+        severityIndex: 0.3
+      });
+    }
+    if (phase === 'data' && n === 2) {
+      return JSON.stringify({ ...planOutput('data'), indexes: ['todos.user_id'] });
+    }
+    return undefined;
+  });
+
+  await orchestrator().runAllPhases();
+
+  const firstPass = AGENT_PHASES.map((p) => `${p.type}/initial`);
+  assert.deepEqual(calls(), [
+    ...firstPass,
+    'data/revision',
+    'data/check',
+    'critic/initial',
+    'composer/initial'
+  ]);
+  assert.ok(events.some((e) => e.type === 'critic_revisions' && e.revisions[0]?.phase === 'data'));
+
+  const current = await store.listPhases(project.id, { current: true });
+  const data = current.find((r) => r.phase_type === 'data')!;
+  assert.equal(data.revision_source, 'critic');
+  assert.deepEqual(data.output.indexes, ['todos.user_id']);
+  assert.equal((await store.getProject(project.id))?.status, 'completed');
+});
+
+test('a revision rejected on every attempt keeps the previous output', async () => {
+  const { store, project, events, orchestrator, calls } = setup(({ phase, n }) => {
+    if (phase === 'critic' && n === 1) {
+      return JSON.stringify({
+        ...planOutput('critic'),
+        revisionRequests: [{ targetPhase: 'data', request: 'Index todos.user_id' }],
+        severityIndex: 0.3
+      });
+    }
+    if (phase === 'data' && n > 1) {
+      return JSON.stringify({ ...planOutput('data'), notes: `attempt ${n}` });
+    }
+    if (phase === 'check') return JSON.stringify({ addressed: false, reason: 'no index added' });
+    return undefined;
+  });
+
+  await orchestrator().runAllPhases();
+
+  assert.equal(calls().filter((c) => c === 'data/revision').length, 3);
+  const discarded = events.find((e) => e.type === 'revision_discarded');
+  assert.ok(discarded && discarded.type === 'revision_discarded');
+  assert.equal(discarded.phase, 'data');
+  assert.equal(discarded.reason, 'no index added');
+
+  const dataRows = store.phases.filter((r) => r.phase_type === 'data');
+  assert.deepEqual(
+    dataRows.map((r) => [r.status, r.is_current]),
+    [
+      ['completed', true],
+      ['superseded', false]
+    ]
+  );
+  assert.deepEqual(dataRows[0].output, planOutput('data'));
+  assert.equal((await store.getProject(project.id))?.status, 'completed');
+});
+
+test('a revision asked for by a reviewer goes back for review without a model check', async () => {
+  const { store, project, events, orchestrator, calls } = setup(
+    ({ phase, n }) => {
+      if (phase === 'strategy' && n === 2) {
+        return JSON.stringify({ ...planOutput('strategy'), problem: 'Small teams lose track of chores' });
+      }
+      if (phase === 'check') return JSON.stringify({ addressed: false, reason: 'still generic' });
+      return undefined;
+    },
+    { approval_phases: ['strategy'] }
+  );
+
+  await orchestrator().runAllPhases();
+  const [held] = store.phases.filter((r) => r.phase_type === 'strategy');
+  assert.equal(held.status, 'awaiting_approval');
+  await store.updatePhase(held.id, { status: 'rejected', review_feedback: 'Focus on small teams' });
+
+  await orchestrator().resume();
+
+  assert.ok(!calls().includes('strategy/check'));
+  assert.ok(!events.some((e) => e.type === 'revision_discarded'));
+  const revised = store.phases.filter((r) => r.phase_type === 'strategy')[1];
+  assert.equal(revised.status, 'awaiting_approval');
+  assert.equal(revised.revision_source, 'review');
+  assert.equal(revised.output.problem, 'Small teams lose track of chores');
+  assert.equal((await store.getProject(project.id))?.status, 'awaiting_approval');
+});
+
+test('a resumed run does not insert the prompts again', async () => {
+  const { store, project, events, orchestrator } = setup();
+
+  await orchestrator().runAllPhases();
+  const saved = await store.listPrompts(project.id);
+  assert.equal(saved.length, planOutput('prompts').bolt.length + planOutput('prompts').cursor.length);
+
+  events.length = 0;
+  await orchestrator().resume();
+
+  assert.deepEqual(await store.listPrompts(project.id), saved);
+  const persisted = events.find((e) => e.type === 'prompts_persisted');
+  assert.ok(persisted && persisted.type === 'prompts_persisted');
+  assert.equal(persisted.skipped, true);
+});
+
+test('cross-phase checks warn when the data model contradicts the auth choice', async (t) => {
+  const warn = t.mock.method(console, 'warn', () => undefined);
+  const { orchestrator } = setup(({ phase }) => {
+    if (phase === 'ux') {
+      const ux = planOutput('ux');
+      return JSON.stringify({ ...ux, auth: { ...ux.auth, choice: 'Firebase Auth' } });
+    }
+    if (phase === 'data') {
+      const data = planOutput('data');
+      const [entity] = data.entities;
+      const users = { ...entity, name: 'users', columns: [{ ...entity.columns[0], name: 'password_hash' }] };
+      return JSON.stringify({ ...data, entities: [users] });
+    }
+    return undefined;
+  });
+
+  await orchestrator().runAllPhases();
+
+  const messages = warn.mock.calls.map((c) => String(c.arguments[0]));
+  assert.ok(messages.includes('Auth mismatch: Firebase chosen but password_hash present in Data model.'));
+});
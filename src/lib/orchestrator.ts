@@ -1,165 +1,750 @@
-import { supabase, type Project, type PlanningPhase } from './supabase';
-import { AGENT_PHASES, type AgentPhase } from './agents';
+import type {
+  ChangeRequest,
+  Decision,
+  LLMCallKind,
+  PhaseCandidate,
+  Project,
+  PlanningPhase,
+  PlanningRun
+} from './supabase';
+import { loadLatestCompletedPhases, markPhasesStale } from './plan-store';
+import type { NewLLMCall, NewPrompt, PlanStore } from './plan-store';
+import {
+  AGENT_PHASES,
+  getPhaseAncestors,
+  getPhaseDescendants,
+  type AgentPhase,
+  type PhaseType
+} from './agents';
 import {
   callAI,
+  CancelledError,
+  CONTINUATION_PROMPT,
+  normalizeContent,
   parseJSONResponse,
+  stitchContinuation,
   validateJSON,
-  type AIProvider
+  type AIMessage,
+  type AIProvider,
+  type AIResponse,
+  type AITransport,
+  type ModelFallback
 } from './ai-client';
+import type { OrchestrationEvent, OrchestrationEventBody, PhaseRequests } from './progress-events';
 import { runQualityChecklist } from './quality-checklist';
+import {
+  addUsage,
+  computeCost,
+  DEFAULT_PRICES,
+  emptyUsage,
+  type PriceTable,
+  type UsageTotals
+} from './pricing';
+import {
+  DEFAULT_SAMPLING_TEMPERATURE,
+  richnessScore,
+  scoreCandidate,
+  selectBest,
+  type SamplingOptions
+} from './sampling';
+import {
+  DEFAULT_MODELS,
+  resolveRoute,
+  singleProviderRouting,
+  type ModelRoute,
+  type RoutingConfig
+} from './routing';
+import type { JSONSchema } from './structured-output';
+
+/**
+ * Context for re-running a phase to fix a specific problem: the output being
+ * replaced, what was wrong with it, and what the model must change.
+ */
+export type PhaseRevision = {
+  source: 'checklist' | 'critic' | 'review';
+  previousOutput: PlanningPhase['output'];
+  issues: string[];
+  request: string;
+};
+
+/**
+ * Thrown before an AI call once the project's spend has reached its budget.
+ */
+export class BudgetExceededError extends Error {
+  constructor(spentUsd: number, budgetUsd: number) {
+    super(
+      `Budget exceeded: spent $${spentUsd.toFixed(4)} of $${budgetUsd.toFixed(2)}. Raise the budget and resume to continue.`
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Thrown when a revised output never addressed its fix request; callers keep
+ * the original output instead of failing the run.
+ */
+export class RevisionRejectedError extends Error {
+  constructor(phaseType: string, public reason: string) {
+    super(`Revision of ${phaseType} rejected: ${reason}`);
+    this.name = 'RevisionRejectedError';
+  }
+}
+
+/**
+ * Approval-gate state carried into a run: gated phases still waiting for a
+ * reviewer, and rejected ones to re-run with the reviewer's feedback.
+ */
+type ReviewState = {
+  awaiting: Set<PhaseType>;
+  rejected: Map<PhaseType, PhaseRevision>;
+};
+
+/**
+ * What a run starts from: reused phases, approval-gate state, the phases
+ * a manual edit left stale, and the change request being applied, if any.
+ */
+type RunSetup = {
+  kind: PlanningRun['kind'];
+  completedPhases: PlanningPhase[];
+  review: ReviewState;
+  stalePhases: PhaseType[];
+  changeRequest: ChangeRequest | null;
+};
+
+type TraceContext = {
+  phaseId: string | null;
+  phaseType: string;
+  attempt: number;
+  kind: LLMCallKind;
+};
 
-export type OrchestrationProgress = {
-  currentPhase: string;
-  completedPhases: string[];
-  totalPhases: number;
-  error?: string;
+type CallOverrides = {
+  temperature?: number;
+  maxTokens?: number;
+  schema?: JSONSchema;
+  // Replaces the run's fallback chain for this call
+  fallbacks?: ModelFallback[];
 };
 
+// Follow-up requests for a reply cut off at maxTokens before giving up on it
+const MAX_CONTINUATIONS = 3;
+
 // Required prompts that should always exist in final tasks
 const REQUIRED_PROMPT_TITLES = [
   'Project Scaffolding',
   'Smoke Test + Release Checklist'
 ];
 
+const REVISION_CHECK_PROMPT = `You are a strict reviewer. Decide whether a revised JSON artifact actually addresses a fix request, compared to the previous version.
+Return ONLY JSON: {"addressed": boolean, "reason": string}. No prose, no markdown code blocks.`;
+
+const IMPACT_ANALYSIS_PROMPT = `You are a planning lead. The brief of an existing product plan changed. Decide which planning phases must be redone so the plan reflects the change; leave out phases the change doesn't touch.
+Return ONLY JSON: {"impactedPhases": string[], "rationale": string}, using the phase types listed. No prose, no markdown code blocks.`;
+
+const IMPACT_ANALYSIS_SCHEMA = {
+  type: 'object',
+  required: ['impactedPhases', 'rationale'],
+  properties: {
+    impactedPhases: { type: 'array', items: { type: 'string' } },
+    rationale: { type: 'string' }
+  }
+};
+
+const REVISION_CHECK_SCHEMA = {
+  type: 'object',
+  required: ['addressed', 'reason'],
+  properties: {
+    addressed: { type: 'boolean' },
+    reason: { type: 'string' }
+  }
+};
+
+export type OrchestratorOptions = {
+  // Where projects, phases, prompts and traces are read and written
+  store: PlanStore;
+  // Defaults to callAI (the ai-proxy edge function)
+  transport?: AITransport;
+  // Max phases running at once when their dependencies allow it (default 2)
+  concurrency?: number;
+  // Per-phase provider/model; defaults to the constructor's provider everywhere
+  routing?: RoutingConfig;
+  prices?: PriceTable;
+  // Overrides projects.budget_usd for this run
+  budgetUsd?: number;
+  // Approval mode: pause for review after these phases; overrides projects.approval_phases
+  approvalPhases?: PhaseType[];
+  // Best-of-N sampling; counts default to projects.sample_counts
+  sampling?: SamplingOptions;
+  // Tried in order when a call's routed provider keeps failing; overrides projects.fallback_chain
+  fallbacks?: ModelFallback[];
+};
+
 export class AgentOrchestrator {
   private projectId: string;
-  private provider: AIProvider;
-  private onProgress?: (progress: OrchestrationProgress) => void;
+  private store: PlanStore;
+  private transport: AITransport;
+  private routing: RoutingConfig;
+  private onEvent?: (event: OrchestrationEvent) => void;
+  private concurrency: number;
+  private prices: PriceTable;
+  private budgetOverride?: number;
+  private budgetUsd: number | null = null;
+  private approvalOverride?: PhaseType[];
+  private approvalPhases: PhaseType[] = [];
+  private sampling: SamplingOptions;
+  private sampleCounts: Partial<Record<PhaseType, number>> = {};
+  private fallbackOverride?: ModelFallback[];
+  private fallbacks: ModelFallback[] = [];
+  private projectUsage: UsageTotals = emptyUsage();
+  // planning_runs row of the run in progress; phase rows link to it
+  private runId: string | null = null;
+  // Change request the run applies; regenerated phases get it in their prompt
+  private changeRequest: ChangeRequest | null = null;
+  private phaseUsage = new Map<string, UsageTotals>();
+  private abortController = new AbortController();
+  // Set by abandon(): the run stops without writing anything more
+  private abandoned = false;
 
   constructor(
     projectId: string,
     provider: AIProvider = 'anthropic',
-    onProgress?: (progress: OrchestrationProgress) => void
+    onEvent: ((event: OrchestrationEvent) => void) | undefined,
+    options: OrchestratorOptions
   ) {
     this.projectId = projectId;
-    this.provider = provider;
-    this.onProgress = onProgress;
+    this.store = options.store;
+    this.transport = options.transport ?? callAI;
+    this.routing = options.routing ?? singleProviderRouting(provider);
+    this.onEvent = onEvent;
+    this.concurrency = Math.max(1, options.concurrency ?? 2);
+    this.prices = options.prices ?? DEFAULT_PRICES;
+    this.budgetOverride = options.budgetUsd;
+    this.approvalOverride = options.approvalPhases;
+    this.sampling = options.sampling ?? {};
+    this.fallbackOverride = options.fallbacks;
   }
 
   async runAllPhases(): Promise<void> {
-    const { data: project, error: projErr } = await supabase
-      .from('projects')
-      .select('*')
-      .eq('id', this.projectId)
-      .maybeSingle();
+    const project = await this.startRun();
+    await this.executeRun(project, {
+      kind: 'plan',
+      completedPhases: [],
+      review: { awaiting: new Set(), rejected: new Map() },
+      stalePhases: [],
+      changeRequest: null
+    });
+  }
+
+  /**
+   * Continue a run that failed part-way or paused at an approval gate. Phases
+   * that already completed (or were approved) are reloaded from
+   * planning_phases and skipped; rejected phases re-run with the reviewer's
+   * feedback; the rest runs as usual, then checklist, critic and composer.
+   *
+   * After a manual edit (see applyPhaseEdit) only the phases marked `stale`
+   * are regenerated, followed by prompts; the checklist and critic revision
+   * passes are skipped so they can't overwrite the edit.
+   *
+   * A change request that hasn't been applied (see submitChangeRequest) is
+   * analysed first; the phases it affects are marked stale and regenerated
+   * the same way, with the change request in their prompt.
+   */
+  async resume(): Promise<void> {
+    const project = await this.startRun();
+    const completedPhases = await loadLatestCompletedPhases(this.store, this.projectId);
+    const review = await this.loadReviewState();
+
+    const staleRows = await this.store.listPhases(this.projectId, { status: 'stale', current: true });
+    const stalePhases = AGENT_PHASES.map((p) => p.type).filter((type) =>
+      staleRows.some((r) => r.phase_type === type)
+    );
+
+    const changeRequest =
+      (await this.store.listChangeRequests(this.projectId)).find((r) => r.status !== 'applied') ??
+      null;
+
+    await this.executeRun(project, {
+      kind: changeRequest ? 'change' : stalePhases.length > 0 ? 'regenerate' : 'resume',
+      completedPhases,
+      review,
+      stalePhases,
+      changeRequest
+    });
+  }
 
-    if (projErr) throw projErr;
+  /**
+   * Abort the run: the in-flight AI call is cancelled, its phase is marked
+   * `cancelled`, and the project gets status `cancelled`.
+   */
+  cancel(): void {
+    this.abortController.abort();
+  }
+
+  /**
+   * Stop the run without recording anything about it: no phase, run or
+   * project status, usage or trace is written from here on. For a worker
+   * whose job was reclaimed, where the project now belongs to another run.
+   */
+  abandon(): void {
+    this.abandoned = true;
+    this.abortController.abort();
+  }
+
+  private get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  private throwIfCancelled(): void {
+    if (this.signal.aborted) throw new CancelledError();
+  }
+
+  private throwIfAbandoned(): void {
+    if (this.abandoned) throw new CancelledError();
+  }
+
+  private async startRun(): Promise<Project> {
+    const project = await this.store.getProject(this.projectId);
     if (!project) {
       throw new Error('Project not found');
     }
 
-    await supabase
-      .from('projects')
-      .update({ status: 'planning', updated_at: new Date().toISOString() })
-      .eq('id', this.projectId);
+    await this.store.updateProject(this.projectId, {
+      status: 'planning',
+      updated_at: new Date().toISOString()
+    });
+
+    // Spend carries over from earlier runs so a resume can't reset the budget
+    this.projectUsage = {
+      inputTokens: project.input_tokens ?? 0,
+      outputTokens: project.output_tokens ?? 0,
+      costUsd: Number(project.cost_usd ?? 0)
+    };
+    this.budgetUsd = this.budgetOverride ?? project.budget_usd ?? null;
+    this.approvalPhases =
+      this.approvalOverride ?? ((project.approval_phases ?? []) as PhaseType[]);
+    this.sampleCounts =
+      this.sampling.counts ?? ((project.sample_counts ?? {}) as Partial<Record<PhaseType, number>>);
+    this.fallbacks = this.fallbackOverride ?? ((project.fallback_chain ?? []) as ModelFallback[]);
+
+    return project;
+  }
+
+  /**
+   * The latest decided row per gated phase: still awaiting a reviewer, or
+   * rejected with feedback. Approved rows are plain `completed` rows.
+   */
+  private async loadReviewState(): Promise<ReviewState> {
+    const rows = await this.store.listPhases(this.projectId);
+    const latest = new Map<PhaseType, PlanningPhase>();
+    for (const row of rows) {
+      if (['completed', 'awaiting_approval', 'rejected'].includes(row.status)) {
+        latest.set(row.phase_type, row);
+      }
+    }
+
+    const review: ReviewState = { awaiting: new Set(), rejected: new Map() };
+    for (const [type, row] of latest) {
+      if (row.status === 'awaiting_approval') review.awaiting.add(type);
+      if (row.status === 'rejected') {
+        const feedback = row.review_feedback || 'Rejected by reviewer';
+        review.rejected.set(type, {
+          source: 'review',
+          previousOutput: row.output,
+          issues: [feedback],
+          request: feedback
+        });
+      }
+    }
+    return review;
+  }
 
-    const completedPhases: PlanningPhase[] = [];
+  private async executeRun(project: Project, setup: RunSetup): Promise<void> {
+    const { completedPhases, review, stalePhases, changeRequest } = setup;
+    const run = await this.store.insertRun({ project_id: this.projectId, kind: setup.kind });
+    this.runId = run.id;
+    this.changeRequest = changeRequest;
+
+    this.emit({
+      type: 'run_started',
+      reusedPhases: completedPhases.map((p) => p.phase_type),
+      stalePhases,
+      changeRequest: changeRequest?.summary,
+      usage: { ...this.projectUsage },
+      budgetUsd: this.budgetUsd
+    });
 
-    // First pass: run every phase once
-    for (let i = 0; i < AGENT_PHASES.length; i++) {
-      const phase = AGENT_PHASES[i];
+    try {
+      if (changeRequest?.status === 'pending') {
+        this.emit({ type: 'stage_started', stage: 'impact' });
+        const impacted = await this.applyChangeRequest(project, changeRequest, completedPhases);
+        stalePhases.push(...impacted.filter((type) => !stalePhases.includes(type)));
+      }
 
-      this.notifyProgress({
-        currentPhase: phase.name,
-        completedPhases: completedPhases.map((p) => p.phase_type),
-        totalPhases: AGENT_PHASES.length
-      });
+      // First pass: run every phase that has no completed output yet
+      this.emit({ type: 'stage_started', stage: 'phases' });
+      await this.runPhaseGraph(project, completedPhases, review);
 
-      try {
-        const result = await this.runPhase(phase, project, completedPhases);
-        completedPhases.push(result);
-      } catch (error) {
-        this.notifyProgress({
-          currentPhase: phase.name,
-          completedPhases: completedPhases.map((p) => p.phase_type),
-          totalPhases: AGENT_PHASES.length,
-          error: error instanceof Error ? error.message : 'Unknown error'
+      // Paused at an approval gate; a reviewer's decision queues the next run
+      this.throwIfAbandoned();
+      if (review.awaiting.size > 0) {
+        await this.store.updateProject(this.projectId, {
+          status: 'awaiting_approval',
+          updated_at: new Date().toISOString()
+        });
+        this.emit({
+          type: 'run_paused',
+          awaiting: AGENT_PHASES.filter((p) => review.awaiting.has(p.type)).map((p) => p.type),
+          usage: { ...this.projectUsage }
         });
+        await this.finishRun('paused');
+        return;
+      }
 
-        await supabase
-          .from('projects')
-          .update({ status: 'draft' })
-          .eq('id', this.projectId);
+      // Regenerating after an edit or a change request: critic and composer
+      // already re-ran as stale phases
+      if (stalePhases.length === 0 && !changeRequest) {
+        // Run quality checklist and apply automatic fixes
+        this.emit({ type: 'stage_started', stage: 'checklist' });
+        await this.applyQualityChecklist(project, completedPhases);
 
-        throw error;
+        // Critic → targeted re-runs → Critic → Composer
+        this.emit({ type: 'stage_started', stage: 'critic' });
+        await this.applyCriticRevisions(project, completedPhases);
       }
+
+      // Persist prompts for Bolt/Cursor from the final Prompts phase
+      this.emit({ type: 'stage_started', stage: 'prompts' });
+      this.throwIfCancelled();
+      await this.generatePrompts(completedPhases);
+      this.throwIfAbandoned();
+    } catch (error) {
+      if (this.abandoned) throw error;
+      const cancelled = error instanceof CancelledError;
+
+      this.emit({
+        type: 'run_failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        cancelled,
+        usage: { ...this.projectUsage }
+      });
+
+      // Don't let a failed status write mask the original error
+      await this.store
+        .updateProject(this.projectId, {
+          status: cancelled ? 'cancelled' : 'draft',
+          updated_at: new Date().toISOString()
+        })
+        .catch((statusError) =>
+          console.warn(`Failed to update project status: ${statusError}`)
+        );
+      await this.finishRun(
+        cancelled ? 'cancelled' : 'failed',
+        error instanceof Error ? error.message : String(error)
+      ).catch((runError) => console.warn(`Failed to update run status: ${runError}`));
+
+      throw error;
+    }
+
+    await this.store.updateProject(this.projectId, {
+      status: 'completed',
+      updated_at: new Date().toISOString()
+    });
+    if (changeRequest) {
+      await this.store.updateChangeRequest(changeRequest.id, {
+        status: 'applied',
+        applied_at: new Date().toISOString()
+      });
     }
+    await this.finishRun('completed');
 
-    // Run quality checklist and apply automatic fixes
-    await this.applyQualityChecklist(project, completedPhases);
+    this.emit({ type: 'run_completed', usage: { ...this.projectUsage } });
+  }
 
-    // Critic → targeted re-runs → Critic → Composer
-    await this.applyCriticRevisions(project, completedPhases);
+  /**
+   * Ask the model which phases a change request affects, then mark those and
+   * everything built on them stale and take them out of `completedPhases`.
+   * Phases mined from competitor inputs are always affected when those
+   * inputs change. An unusable answer counts every phase as affected. The
+   * result is saved on the change request, which moves to `analyzed`.
+   */
+  private async applyChangeRequest(
+    project: Project,
+    changeRequest: ChangeRequest,
+    completedPhases: PlanningPhase[]
+  ): Promise<PhaseType[]> {
+    const allTypes = AGENT_PHASES.map((p) => p.type);
+    const { response, traceId } = await this.tracedCall(
+      { phaseId: null, phaseType: 'impact', attempt: 1, kind: 'impact' },
+      [
+        { role: 'system', content: IMPACT_ANALYSIS_PROMPT },
+        {
+          role: 'user',
+          content: `Change Request:
+${changeRequest.summary}
+
+Brief Changes:
+${JSON.stringify(changeRequest.changes, null, 2)}
+
+Current Brief:
+${JSON.stringify(
+  {
+    description: project.description,
+    competitorLinks: project.competitor_links ?? [],
+    competitorReviews: project.competitor_reviews ?? []
+  },
+  null,
+  2
+)}
+
+Decision Ledger:
+${JSON.stringify(this.extractDecisionLedger(completedPhases, project.decision_overrides ?? []), null, 2)}
+
+Phases (type: name, depends on):
+${AGENT_PHASES.map(
+  (p) => `- ${p.type}: ${p.name} — ${p.description} (depends on: ${p.dependsOn.join(', ') || 'none'})`
+).join('\n')}`
+        }
+      ],
+      resolveRoute(this.routing, 'critic'),
+      { temperature: 0, maxTokens: 800, schema: IMPACT_ANALYSIS_SCHEMA }
+    );
+    await this.persistProjectUsage();
 
-    // Persist prompts for Bolt/Cursor from the final Prompts phase
-    await this.generatePrompts(completedPhases);
+    let direct: PhaseType[] = allTypes;
+    let rationale = 'Impact analysis failed; regenerating every phase';
+    try {
+      const verdict = parseJSONResponse(response.content);
+      const validation = validateJSON(verdict, IMPACT_ANALYSIS_SCHEMA);
+      if (validation.valid) {
+        direct = allTypes.filter((type) => verdict.impactedPhases.includes(type));
+        rationale = verdict.rationale;
+      } else {
+        await this.recordTraceErrors(traceId, { validationErrors: validation.errors });
+        console.warn('Impact analysis returned invalid JSON; regenerating every phase');
+      }
+    } catch (parseError) {
+      await this.recordTraceErrors(traceId, { parseError: String(parseError) });
+      console.warn('Impact analysis returned unparseable output; regenerating every phase');
+    }
 
-    await supabase
-      .from('projects')
-      .update({ status: 'completed', updated_at: new Date().toISOString() })
-      .eq('id', this.projectId);
+    if (changeRequest.changes.some((c) => c.field !== 'description')) {
+      direct = [...direct, 'competitor'];
+    }
+    const impactedSet = new Set(direct.flatMap((type) => [type, ...getPhaseDescendants(type)]));
+    const impacted = allTypes.filter((type) => impactedSet.has(type));
 
-    this.notifyProgress({
-      currentPhase: 'Completed',
-      completedPhases: AGENT_PHASES.map((p) => p.type),
-      totalPhases: AGENT_PHASES.length
+    await markPhasesStale(this.store, this.projectId, impacted);
+    for (let i = completedPhases.length - 1; i >= 0; i--) {
+      if (impactedSet.has(completedPhases[i].phase_type)) completedPhases.splice(i, 1);
+    }
+
+    await this.store.updateChangeRequest(changeRequest.id, {
+      status: 'analyzed',
+      run_id: this.runId,
+      impacted_phases: impacted,
+      impact_rationale: rationale
+    });
+    this.emit({ type: 'impact_analyzed', impacted, rationale });
+    return impacted;
+  }
+
+  private async finishRun(status: PlanningRun['status'], error?: string): Promise<void> {
+    if (!this.runId) return;
+    await this.store.updateRun(this.runId, {
+      status,
+      error: error ?? null,
+      completed_at: new Date().toISOString()
     });
   }
 
+  /**
+   * Schedule the remaining phases as a DAG: a phase starts once everything in
+   * its `dependsOn` has completed, with at most `concurrency` in flight. On the
+   * first failure no new phases start; in-flight ones finish (so resume can
+   * reuse them) and the error is rethrown.
+   *
+   * Approval gates: a gated phase's result goes into `review.awaiting` instead
+   * of `completedPhases`, so its dependents never start. Independent phases
+   * keep running; once nothing else can run the graph returns and the caller
+   * pauses. Phases in `review.rejected` re-run with the reviewer's feedback.
+   */
+  private async runPhaseGraph(
+    project: Project,
+    completedPhases: PlanningPhase[],
+    review: ReviewState
+  ): Promise<void> {
+    const isDone = (type: PhaseType) =>
+      completedPhases.some((p) => p.phase_type === type);
+
+    const pending = AGENT_PHASES.filter((p) => !isDone(p.type) && !review.awaiting.has(p.type));
+    const running = new Map<PhaseType, Promise<void>>();
+    let firstError: unknown = null;
+
+    while (pending.length > 0 || running.size > 0) {
+      if (firstError === null) {
+        try {
+          this.throwIfCancelled();
+        } catch (error) {
+          firstError = error;
+        }
+      }
+
+      if (firstError === null) {
+        for (const phase of [...pending]) {
+          if (running.size >= this.concurrency) break;
+          if (!phase.dependsOn.every(isDone)) continue;
+
+          pending.splice(pending.indexOf(phase), 1);
+          const gated = this.approvalPhases.includes(phase.type);
+          running.set(
+            phase.type,
+            this.runPhase(phase, project, completedPhases, review.rejected.get(phase.type), gated)
+              .then((result) => {
+                if (gated) review.awaiting.add(phase.type);
+                else completedPhases.push(result);
+              })
+              .catch((error) => {
+                if (firstError === null) firstError = error;
+              })
+              .finally(() => {
+                running.delete(phase.type);
+              })
+          );
+        }
+      }
+
+      if (running.size === 0) {
+        if (firstError !== null) throw firstError;
+        if (review.awaiting.size > 0) return;
+        throw new Error(
+          `Unsatisfiable phase dependencies: ${pending.map((p) => p.type).join(', ')}`
+        );
+      }
+
+      await Promise.race(running.values());
+
+      if (firstError !== null && running.size === 0) throw firstError;
+    }
+  }
+
   /**
    * Run a single phase with JSON parse/validate/repair loop.
+   * With a revision, the prompt carries the previous output and fix request,
+   * and a checklist or critic result must pass checkRevision before it is
+   * accepted.
+   * With `awaitApproval`, the row is saved as `awaiting_approval` for review.
+   *
+   * Phases with a sample count above one (and not revising) first sample that
+   * many candidates and keep the best (see sampleCandidates); the repair loop
+   * only runs if none of them is valid.
    */
   private async runPhase(
     phase: AgentPhase,
     project: Project,
-    previousPhases: PlanningPhase[]
+    previousPhases: PlanningPhase[],
+    revision?: PhaseRevision,
+    awaitApproval = false
   ): Promise<PlanningPhase> {
-    const { data: phaseRecord, error: insertErr } = await supabase
-      .from('planning_phases')
-      .insert({
-        project_id: this.projectId,
-        phase_type: phase.type,
-        status: 'processing'
-      })
-      .select()
-      .single();
-
-    if (insertErr) throw insertErr;
-    if (!phaseRecord) {
-      throw new Error(`Failed to create phase record for ${phase.type}`);
-    }
+    this.throwIfCancelled();
+
+    const phaseRecord = await this.store.insertPhase({
+      project_id: this.projectId,
+      run_id: this.runId,
+      phase_type: phase.type,
+      revision_source: revision?.source ?? null,
+      status: 'processing'
+    });
+    this.emit({ type: 'phase_started', phase: phase.type, revision: revision?.source });
 
     try {
+      // Only the artifacts this phase depends on; decisions from every ancestor
+      const inputs = previousPhases.filter((p) =>
+        phase.dependsOn.includes(p.phase_type)
+      );
+      const ancestors = getPhaseAncestors(phase.type);
+      const ledgerSources = previousPhases.filter((p) =>
+        ancestors.includes(p.phase_type)
+      );
+
       const contextData = {
         projectDescription: project.description,
         competitorLinks: project.competitor_links || [],
         competitorReviews: project.competitor_reviews || [],
-        priorArtifacts: this.buildPriorArtifacts(previousPhases),
-        decisionLedger: this.extractDecisionLedger(previousPhases)
+        priorArtifacts: this.buildPriorArtifacts(inputs),
+        decisionLedger: this.extractDecisionLedger(
+          ledgerSources,
+          project.decision_overrides ?? []
+        ),
+        ...(project.decision_overrides?.length
+          ? { decisionOverrides: project.decision_overrides }
+          : {}),
+        ...(this.changeRequest
+          ? {
+              changeRequest: {
+                summary: this.changeRequest.summary,
+                changes: this.changeRequest.changes
+              }
+            }
+          : {})
       };
 
       const prompt = this.buildContextualPrompt(
         phase,
         contextData,
-        previousPhases
+        inputs,
+        revision
       );
 
+      const route = resolveRoute(this.routing, phase.type);
       let output: any;
+      let modelUsed = route.model;
+      let rejection: string | null = null;
       const maxRetries = 3;
 
-      for (let attempt = 0; attempt < maxRetries; attempt++) {
-        const response = await callAI(
+      const samples = revision ? 1 : Math.floor(this.sampleCounts[phase.type] ?? 1);
+      const candidates =
+        samples > 1
+          ? await this.sampleCandidates(phase, route, prompt, previousPhases, phaseRecord.id, samples)
+          : null;
+      const best = candidates?.find((c) => c.selected);
+      if (best) {
+        output = best.output;
+        modelUsed = best.model;
+        this.crossPhaseChecks(phase.type, output, previousPhases);
+      }
+
+      for (let attempt = 0; attempt < maxRetries && !best; attempt++) {
+        const userPrompt = rejection
+          ? `${prompt}\n\nYour previous revision was rejected: ${rejection}\nChange the output so it explicitly addresses the fix request.`
+          : prompt;
+        const trace = {
+          phaseId: phaseRecord.id,
+          phaseType: phase.type,
+          attempt: attempt + 1
+        };
+        this.emit({
+          type: 'phase_attempt',
+          phase: phase.type,
+          attempt: trace.attempt,
+          maxAttempts: maxRetries
+        });
+
+        const { response, traceId } = await this.tracedCall(
+          { ...trace, kind: revision ? 'revision' : 'initial' },
           [
             { role: 'system', content: phase.systemPrompt },
-            { role: 'user', content: prompt }
+            { role: 'user', content: userPrompt }
           ],
-          this.provider,
-          { temperature: 0.2, maxTokens: 4000 }
+          route,
+          { temperature: route.temperature, schema: phase.schema }
         );
+        modelUsed = response.model || route.model;
 
         try {
           output = parseJSONResponse(response.content);
         } catch (parseError) {
+          await this.recordTraceErrors(traceId, { parseError: String(parseError) });
+          this.emitInvalid(phase.type, trace.attempt, [`Invalid JSON: ${parseError}`]);
           if (attempt < maxRetries - 1) {
             continue;
           }
@@ -173,33 +758,54 @@ export class AgentOrchestrator {
         if (validation.valid) {
           // light cross-phase checks once API/UI/Data are present
           this.crossPhaseChecks(phase.type, output, previousPhases);
-          break;
+
+          rejection = await this.checkRevision(phase, route, output, revision, trace);
+          if (!rejection) break;
+          this.emitRejected(phase.type, trace.attempt, rejection);
+          if (attempt < maxRetries - 1) continue;
+          throw new RevisionRejectedError(phase.type, rejection);
         }
 
+        await this.recordTraceErrors(traceId, { validationErrors: validation.errors });
+        this.emitInvalid(phase.type, trace.attempt, validation.errors);
+
         if (attempt < maxRetries - 1) {
+          this.emit({ type: 'phase_repair', phase: phase.type, attempt: trace.attempt });
           const repairPrompt = this.buildRepairPrompt(
             response.content,
             validation.errors,
             phase.schema
           );
-          const repairResponse = await callAI(
+          const repair = await this.tracedCall(
+            { ...trace, kind: 'repair' },
             [
               { role: 'system', content: phase.systemPrompt },
               { role: 'user', content: repairPrompt }
             ],
-            this.provider,
-            { temperature: 0.1, maxTokens: 4000 }
+            route,
+            { temperature: Math.min(route.temperature, 0.1), schema: phase.schema }
           );
+          modelUsed = repair.response.model || route.model;
 
           try {
-            output = parseJSONResponse(repairResponse.content);
-            const revalidation = validateJSON(output, phase.schema);
-            if (revalidation.valid) {
-              break;
-            }
-          } catch {
+            output = parseJSONResponse(repair.response.content);
+          } catch (parseError) {
+            await this.recordTraceErrors(repair.traceId, { parseError: String(parseError) });
+            this.emitInvalid(phase.type, trace.attempt, [`Invalid JSON: ${parseError}`]);
             continue;
           }
+
+          const revalidation = validateJSON(output, phase.schema);
+          if (revalidation.valid) {
+            rejection = await this.checkRevision(phase, route, output, revision, trace);
+            if (!rejection) break;
+            this.emitRejected(phase.type, trace.attempt, rejection);
+          } else {
+            await this.recordTraceErrors(repair.traceId, {
+              validationErrors: revalidation.errors
+            });
+            this.emitInvalid(phase.type, trace.attempt, revalidation.errors);
+          }
         } else {
           throw new Error(
             `JSON validation failed after ${maxRetries} attempts: ${validation.errors.join(
@@ -209,28 +815,358 @@ export class AgentOrchestrator {
         }
       }
 
-      const { data: updatedPhase, error: updateErr } = await supabase
-        .from('planning_phases')
-        .update({
-          output,
-          status: 'completed',
-          model_used: this.provider,
-          completed_at: new Date().toISOString()
+      // The output may have arrived just as the run was abandoned
+      this.throwIfAbandoned();
+      let completed = await this.store.updatePhase(phaseRecord.id, {
+        output,
+        status: awaitApproval ? 'awaiting_approval' : 'completed',
+        model_used: modelUsed,
+        ...(candidates ? { candidates } : {}),
+        ...this.phaseUsageColumns(phaseRecord.id),
+        completed_at: new Date().toISOString()
+      });
+      // A gated phase becomes current once a reviewer approves it
+      if (!awaitApproval) completed = await this.store.promotePhase(phaseRecord.id);
+      this.emit({
+        type: 'phase_completed',
+        phase: phase.type,
+        model: modelUsed,
+        phaseUsage: this.phaseUsage.get(phaseRecord.id) ?? emptyUsage(),
+        usage: { ...this.projectUsage }
+      });
+      if (awaitApproval) this.emit({ type: 'approval_requested', phase: phase.type });
+      return completed;
+    } catch (error) {
+      if (this.abandoned) throw error;
+
+      // The caller keeps the previous output, so this row is a discarded
+      // version rather than a failure
+      if (error instanceof RevisionRejectedError) {
+        this.emit({
+          type: 'revision_discarded',
+          phase: phase.type,
+          reason: error.reason,
+          usage: { ...this.projectUsage }
+        });
+        await this.store
+          .updatePhase(phaseRecord.id, {
+            status: 'superseded',
+            ...this.phaseUsageColumns(phaseRecord.id)
+          })
+          .catch((statusError) =>
+            console.warn(`Failed to update phase status: ${statusError}`)
+          );
+        throw error;
+      }
+
+      this.emit({
+        type: 'phase_failed',
+        phase: phase.type,
+        error: error instanceof Error ? error.message : String(error),
+        cancelled: error instanceof CancelledError,
+        usage: { ...this.projectUsage }
+      });
+      await this.store
+        .updatePhase(phaseRecord.id, {
+          status: error instanceof CancelledError ? 'cancelled' : 'failed',
+          ...this.phaseUsageColumns(phaseRecord.id)
         })
-        .eq('id', phaseRecord.id)
-        .select()
-        .single();
+        .catch((statusError) =>
+          console.warn(`Failed to update phase status: ${statusError}`)
+        );
 
-      if (updateErr) throw updateErr;
-      return updatedPhase!;
+      throw error;
+    } finally {
+      await this.persistProjectUsage();
+    }
+  }
+
+  /**
+   * Sample `count` outputs for a phase in parallel and score each one (schema
+   * validity, the phase's quality checklist items, the configured scorer).
+   * The best valid one is marked selected; all of them are returned so they
+   * can be saved on the phase row. A sample whose call failed (after retries
+   * and fallbacks) is kept with its error; only when every call failed does
+   * the phase fail, with the first error.
+   */
+  private async sampleCandidates(
+    phase: AgentPhase,
+    route: ModelRoute,
+    prompt: string,
+    previousPhases: PlanningPhase[],
+    phaseId: string,
+    count: number
+  ): Promise<PhaseCandidate[]> {
+    const temperature = this.sampling.temperature ?? DEFAULT_SAMPLING_TEMPERATURE;
+    const scorer = this.sampling.score ?? richnessScore;
+
+    const settled = await Promise.allSettled(
+      Array.from({ length: count }, async (_, index): Promise<PhaseCandidate> => {
+        const { response, traceId } = await this.tracedCall(
+          { phaseId, phaseType: phase.type, attempt: index + 1, kind: 'sample' },
+          [
+            { role: 'system', content: phase.systemPrompt },
+            { role: 'user', content: prompt }
+          ],
+          route,
+          { temperature, schema: phase.schema }
+        );
+        const model = response.model || route.model;
+
+        let output: unknown;
+        try {
+          output = parseJSONResponse(response.content);
+        } catch (parseError) {
+          await this.recordTraceErrors(traceId, { parseError: String(parseError) });
+          return { index, model, output: null, parseError: String(parseError), score: null, selected: false };
+        }
+
+        const score = scoreCandidate(phase, output, previousPhases, scorer);
+        if (score.schemaErrors.length > 0) {
+          await this.recordTraceErrors(traceId, { validationErrors: score.schemaErrors });
+        }
+        return { index, model, output, score, selected: false };
+      })
+    );
+
+    this.throwIfCancelled();
+    const failed = settled.filter((s): s is PromiseRejectedResult => s.status === 'rejected');
+    if (failed.length === count) throw failed[0].reason;
+
+    const candidates = settled.map((result, index): PhaseCandidate =>
+      result.status === 'fulfilled'
+        ? result.value
+        : {
+            index,
+            model: route.model,
+            output: null,
+            error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+            score: null,
+            selected: false
+          }
+    );
+
+    const best = selectBest(candidates);
+    this.emit({
+      type: 'candidates_scored',
+      phase: phase.type,
+      scores: candidates.map((c) => c.score?.total ?? null),
+      selected: best ? best.index : null
+    });
+    return candidates;
+  }
+
+  private phaseUsageColumns(phaseId: string) {
+    const usage = this.phaseUsage.get(phaseId) ?? emptyUsage();
+    return {
+      input_tokens: usage.inputTokens,
+      output_tokens: usage.outputTokens,
+      cost_usd: usage.costUsd
+    };
+  }
+
+  private async persistProjectUsage(): Promise<void> {
+    if (this.abandoned) return;
+    try {
+      await this.store.updateProject(this.projectId, {
+        input_tokens: this.projectUsage.inputTokens,
+        output_tokens: this.projectUsage.outputTokens,
+        cost_usd: this.projectUsage.costUsd
+      });
     } catch (error) {
-      await supabase
-        .from('planning_phases')
-        .update({ status: 'failed' })
-        .eq('id', phaseRecord.id);
+      console.warn(`Failed to record project usage: ${error}`);
+    }
+  }
+
+  private checkBudget(): void {
+    if (this.budgetUsd !== null && this.projectUsage.costUsd >= this.budgetUsd) {
+      throw new BudgetExceededError(this.projectUsage.costUsd, this.budgetUsd);
+    }
+  }
+
+  /**
+   * tracedRequest, continued while the reply is cut off at maxTokens: each
+   * continuation (traced with kind `continuation`) hands the model its partial
+   * reply and asks it to pick up where it stopped, and the pieces are stitched
+   * into one response. A cut-off reply is never handed to validation: one
+   * that already parses is the partial input of a forced tool call (Anthropic),
+   * which can't be continued, so the request is asked again as plain text and
+   * that reply is continued instead. Later parse/validation failures are
+   * attached to the trace row of the request the reply started from. A
+   * stitched reply to a structured request is normalized like a complete one
+   * (see normalizeContent).
+   *
+   * Continuations go to the provider and model that wrote the partial reply,
+   * which after a fallback isn't `route`, and never fall back themselves: no
+   * other model can pick up text it didn't write.
+   */
+  private async tracedCall(
+    trace: TraceContext,
+    messages: AIMessage[],
+    route: ModelRoute,
+    overrides: CallOverrides
+  ): Promise<{ response: AIResponse; traceId: string | null }> {
+    let { response, traceId } = await this.tracedRequest(trace, messages, route, overrides);
+    const answeredBy = response.fallbackFrom?.length ? response.provider : undefined;
+    const continuationRoute: ModelRoute = answeredBy
+      ? { ...route, provider: answeredBy, model: response.requestedModel ?? DEFAULT_MODELS[answeredBy] }
+      : route;
+
+    // Whether the reply was written under the provider's schema hints
+    let structured = Boolean(overrides.schema);
+    if (response.truncated && parsesAsJSON(response.content)) {
+      structured = false;
+      ({ response, traceId } = await this.tracedRequest(trace, messages, continuationRoute, {
+        ...overrides,
+        schema: undefined,
+        plainText: true,
+        fallbacks: []
+      }));
+    }
 
+    for (
+      let continuation = 0;
+      continuation < MAX_CONTINUATIONS && response.truncated && !parsesAsJSON(response.content);
+      continuation++
+    ) {
+      const { response: next } = await this.tracedRequest(
+        { ...trace, kind: 'continuation' },
+        [
+          ...messages,
+          { role: 'assistant', content: response.content },
+          { role: 'user', content: CONTINUATION_PROMPT }
+        ],
+        continuationRoute,
+        { ...overrides, schema: undefined, plainText: true, fallbacks: [] }
+      );
+      response = {
+        ...response,
+        content: stitchContinuation(response.content, next.content),
+        model: next.model || response.model,
+        usage: {
+          inputTokens: response.usage.inputTokens + next.usage.inputTokens,
+          outputTokens: response.usage.outputTokens + next.usage.outputTokens
+        },
+        stopReason: next.stopReason,
+        truncated: next.truncated
+      };
+      if (structured && overrides.schema && !response.truncated) {
+        response.content = normalizeContent(continuationRoute.provider, response.content, overrides.schema);
+      }
+    }
+
+    return { response, traceId };
+  }
+
+  /**
+   * callAI plus a row in llm_calls with the prompt, raw response, stop reason,
+   * latency and model. Parse/validation failures are attached later via
+   * recordTraceErrors.
+   */
+  private async tracedRequest(
+    trace: TraceContext,
+    messages: AIMessage[],
+    route: ModelRoute,
+    overrides: CallOverrides & { plainText?: boolean }
+  ): Promise<{ response: AIResponse; traceId: string | null }> {
+    this.checkBudget();
+
+    const startedAt = Date.now();
+    const row: Omit<NewLLMCall, 'latency_ms'> = {
+      project_id: this.projectId,
+      phase_id: trace.phaseId,
+      phase_type: trace.phaseType,
+      attempt: trace.attempt,
+      kind: trace.kind,
+      provider: route.provider,
+      messages
+    };
+
+    let response: AIResponse;
+    try {
+      response = await this.transport(messages, route.provider, {
+        model: route.model,
+        temperature: overrides.temperature ?? route.temperature,
+        maxTokens: overrides.maxTokens ?? route.maxTokens,
+        signal: this.signal,
+        phase: trace.phaseType,
+        schema: overrides.schema,
+        plainText: overrides.plainText,
+        fallbacks: overrides.fallbacks ?? this.fallbacks
+      });
+    } catch (error) {
+      await this.insertTrace({
+        ...row,
+        model: route.model,
+        error: error instanceof Error ? error.message : String(error),
+        latency_ms: Date.now() - startedAt
+      });
       throw error;
     }
+
+    const model = response.model || route.model;
+    if (response.fallbackFrom?.length) {
+      this.emit({
+        type: 'model_fallback',
+        phase: trace.phaseType,
+        from: response.fallbackFrom.map((f) => `${f.provider}/${f.model ?? 'default'}`),
+        to: `${response.provider ?? route.provider}/${model}`,
+        reason: response.fallbackFrom[0].error
+      });
+    }
+    const usage: UsageTotals = {
+      ...response.usage,
+      costUsd: computeCost(model, response.usage, this.prices)
+    };
+    this.projectUsage = addUsage(this.projectUsage, usage);
+    if (trace.phaseId) {
+      this.phaseUsage.set(
+        trace.phaseId,
+        addUsage(this.phaseUsage.get(trace.phaseId) ?? emptyUsage(), usage)
+      );
+    }
+
+    const traceId = await this.insertTrace({
+      ...row,
+      provider: response.provider ?? route.provider,
+      model,
+      response: response.content,
+      stop_reason: response.stopReason ?? null,
+      truncated: Boolean(response.truncated),
+      input_tokens: usage.inputTokens,
+      output_tokens: usage.outputTokens,
+      cost_usd: usage.costUsd,
+      latency_ms: Date.now() - startedAt
+    });
+
+    return { response, traceId };
+  }
+
+  // Tracing is diagnostic only; a failed write never fails the run
+  private async insertTrace(row: NewLLMCall): Promise<string | null> {
+    if (this.abandoned) return null;
+    try {
+      return await this.store.insertLLMCall(row);
+    } catch (error) {
+      console.warn(`Failed to record LLM call: ${error}`);
+      return null;
+    }
+  }
+
+  private async recordTraceErrors(
+    traceId: string | null,
+    errors: { parseError?: string; validationErrors?: string[] }
+  ): Promise<void> {
+    if (!traceId) return;
+
+    try {
+      await this.store.updateLLMCall(traceId, {
+        parse_error: errors.parseError,
+        validation_errors: errors.validationErrors
+      });
+    } catch (error) {
+      console.warn(`Failed to update LLM call trace: ${error}`);
+    }
   }
 
   private buildPriorArtifacts(previousPhases: PlanningPhase[]): any {
@@ -241,7 +1177,14 @@ export class AgentOrchestrator {
     return artifacts;
   }
 
-  private extractDecisionLedger(previousPhases: PlanningPhase[]): any[] {
+  /**
+   * Decisions recorded by `previousPhases`, one per key. A branch's overrides
+   * replace the decision with the same key, or are added if no phase made it.
+   */
+  private extractDecisionLedger(
+    previousPhases: PlanningPhase[],
+    overrides: Decision[] = []
+  ): any[] {
     const ledger: any[] = [];
     for (const phase of previousPhases) {
       if (phase.output?.decisions && Array.isArray(phase.output.decisions)) {
@@ -256,19 +1199,26 @@ export class AgentOrchestrator {
     for (const d of ledger) {
       if (d?.key) map.set(d.key, { key: d.key, value: d.value, reason: d.reason });
     }
+    for (const d of overrides) map.set(d.key, d);
     return Array.from(map.values());
   }
 
   private buildContextualPrompt(
     phase: AgentPhase,
     context: any,
-    previousPhases: PlanningPhase[]
+    previousPhases: PlanningPhase[],
+    revision?: PhaseRevision
   ): string {
     let prompt = `Project Context:\n${JSON.stringify(context, null, 2)}\n\n`;
 
-    if (previousPhases.length > 0) {
+    // In revision mode the phase's own output is shown separately below
+    const otherPhases = revision
+      ? previousPhases.filter((p) => p.phase_type !== phase.type)
+      : previousPhases;
+
+    if (otherPhases.length > 0) {
       prompt += `Previous Planning Phases:\n`;
-      previousPhases.forEach((p) => {
+      otherPhases.forEach((p) => {
         prompt += `\n${p.phase_type.toUpperCase()}:\n${JSON.stringify(
           p.output,
           null,
@@ -278,6 +1228,27 @@ export class AgentOrchestrator {
       prompt += `\n`;
     }
 
+    if (context.decisionOverrides) {
+      prompt += `Decision Overrides:\nThis plan is a branch. These Decision Ledger entries were set by the user and take precedence over anything earlier phases decided; build on them and don't contradict them:\n${context.decisionOverrides
+        .map((d: Decision) => `- ${d.key} = ${d.value} (${d.reason})`)
+        .join('\n')}\n\n`;
+    }
+
+    if (context.changeRequest) {
+      prompt += `Change Request:\nThe brief changed after this plan was made: ${context.changeRequest.summary}\nThe Project Context above already has the new brief. Make sure your output reflects the change and stays consistent with the unchanged phases.\n\n`;
+    }
+
+    if (revision) {
+      prompt += `Revision Mode:\nYou are revising your previous output for this phase. Keep everything that is still correct and change what is needed to resolve the issues below.\n\n`;
+      prompt += `Your Previous Output:\n${JSON.stringify(revision.previousOutput, null, 2)}\n\n`;
+      if (revision.issues.length > 0) {
+        prompt += `Issues Found (${revision.source}):\n${revision.issues
+          .map((i) => `- ${i}`)
+          .join('\n')}\n\n`;
+      }
+      prompt += `Fix Request:\n${revision.request}\n\n`;
+    }
+
     prompt += `Task: ${phase.description}\n\n`;
     prompt += `Return ONLY valid JSON matching this schema. No prose, no markdown code blocks.\n`;
     prompt += `Schema: ${JSON.stringify(phase.schema, null, 2)}`;
@@ -285,6 +1256,92 @@ export class AgentOrchestrator {
     return prompt;
   }
 
+  /**
+   * Returns null when the output is acceptable, otherwise the reason the
+   * revision does not address its fix request. Non-revision runs always pass,
+   * and so do review revisions: they go back to the reviewer, who is the check.
+   */
+  private async checkRevision(
+    phase: AgentPhase,
+    route: ModelRoute,
+    output: PlanningPhase['output'],
+    revision: PhaseRevision | undefined,
+    trace: Omit<TraceContext, 'kind'>
+  ): Promise<string | null> {
+    if (!revision || revision.source === 'review') return null;
+
+    if (JSON.stringify(output) === JSON.stringify(revision.previousOutput)) {
+      return 'output is identical to the previous version';
+    }
+
+    const { response, traceId } = await this.tracedCall(
+      { ...trace, kind: 'check' },
+      [
+        { role: 'system', content: REVISION_CHECK_PROMPT },
+        {
+          role: 'user',
+          content: `Phase: ${phase.name}
+
+Fix Request:
+${revision.request}
+
+Previous Output:
+${JSON.stringify(revision.previousOutput, null, 2)}
+
+Revised Output:
+${JSON.stringify(output, null, 2)}`
+        }
+      ],
+      route,
+      { temperature: 0, maxTokens: 500, schema: REVISION_CHECK_SCHEMA }
+    );
+
+    try {
+      const verdict = parseJSONResponse(response.content);
+      const validation = validateJSON(verdict, REVISION_CHECK_SCHEMA);
+      if (!validation.valid) {
+        await this.recordTraceErrors(traceId, { validationErrors: validation.errors });
+        console.warn(`Revision check for ${phase.type} returned invalid JSON; accepting revision`);
+        return null;
+      }
+      return verdict.addressed ? null : verdict.reason || 'fix request not addressed';
+    } catch (parseError) {
+      await this.recordTraceErrors(traceId, { parseError: String(parseError) });
+      console.warn(`Revision check for ${phase.type} returned unparseable output; accepting revision`);
+      return null;
+    }
+  }
+
+  /**
+   * Re-run a phase in revision mode and swap the result into completedPhases.
+   * A rejected revision leaves the original output in place.
+   */
+  private async revisePhase(
+    phase: AgentPhase,
+    project: Project,
+    completedPhases: PlanningPhase[],
+    source: PhaseRevision['source'],
+    issues: string[],
+    requests: string[]
+  ): Promise<void> {
+    const idx = completedPhases.findIndex((p) => p.phase_type === phase.type);
+    const revision: PhaseRevision = {
+      source,
+      previousOutput: idx >= 0 ? completedPhases[idx].output : null,
+      issues,
+      request: requests.map((r) => `- ${r}`).join('\n')
+    };
+
+    try {
+      const rerun = await this.runPhase(phase, project, completedPhases, revision);
+      if (idx >= 0) completedPhases[idx] = rerun;
+      else completedPhases.push(rerun);
+    } catch (error) {
+      if (!(error instanceof RevisionRejectedError)) throw error;
+      console.warn(`${error.message}; keeping previous output`);
+    }
+  }
+
   private buildRepairPrompt(
     originalResponse: string,
     errors: string[],
@@ -310,30 +1367,32 @@ Return corrected JSON matching the schema. No prose, no markdown code blocks.`;
   ): Promise<void> {
     const checklist = runQualityChecklist(completedPhases);
 
-    if (checklist.status === 'pass') {
-      console.log('Quality checklist passed');
-      return;
-    }
+    // Re-run each phase with issues once, carrying all of its fix requests
+    const requestsByType = groupRequests(
+      checklist.targetedRevisions.map((rev) => [rev.phase, rev.request])
+    );
+
+    this.emit({
+      type: 'checklist_result',
+      status: checklist.status,
+      failItems: checklist.failItems,
+      revisions: toPhaseRequests(requestsByType)
+    });
 
-    console.log(`Quality checklist failed: ${checklist.failItems.join(', ')}`);
-    console.log(`Applying ${checklist.targetedRevisions.length} automatic fixes...`);
+    if (checklist.status === 'pass') return;
 
     const byType: Record<string, AgentPhase> = {};
     for (const ap of AGENT_PHASES) byType[ap.type] = ap;
 
-    // Re-run phases with issues
-    for (const rev of checklist.targetedRevisions) {
-      const type = String(rev.phase || '').toLowerCase();
+    const issues = checklist.items
+      .filter((item) => !item.passed)
+      .map((item) => (item.details ? `${item.check}: ${item.details}` : item.check));
+
+    for (const [type, requests] of requestsByType) {
       const phase = byType[type];
       if (!phase) continue;
 
-      console.log(`Re-running ${phase.name} to fix: ${rev.request}`);
-
-      const rerun = await this.runPhase(phase, project, completedPhases);
-
-      const idx = completedPhases.findIndex((p) => p.phase_type === phase.type);
-      if (idx >= 0) completedPhases[idx] = rerun;
-      else completedPhases.push(rerun);
+      await this.revisePhase(phase, project, completedPhases, 'checklist', issues, requests);
     }
   }
 
@@ -356,23 +1415,31 @@ Return corrected JSON matching the schema. No prose, no markdown code blocks.`;
         ? critic.output.severityIndex
         : 0;
 
+    // Re-run only requested phases (once)
+    const requestsByType = groupRequests(
+      revs.map((r: { targetPhase?: unknown; request?: unknown }) => [r.targetPhase, r.request])
+    );
+
+    this.emit({
+      type: 'critic_revisions',
+      severity,
+      revisions: toPhaseRequests(requestsByType)
+    });
+
     if (revs.length === 0 && severity < 0.5) return;
 
     const byType: Record<string, AgentPhase> = {};
     for (const ap of AGENT_PHASES) byType[ap.type] = ap;
 
-    // Re-run only requested phases (once)
-    for (const r of revs) {
-      const type = String(r.targetPhase || '').toLowerCase();
+    const issues: string[] = Array.isArray(critic.output.issues)
+      ? critic.output.issues.map(String)
+      : [];
+
+    for (const [type, requests] of requestsByType) {
       const phase = byType[type];
       if (!phase) continue;
 
-      const rerun = await this.runPhase(phase, project, completedPhases);
-
-      // Replace in-memory result
-      const idx = completedPhases.findIndex((p) => p.phase_type === phase.type);
-      if (idx >= 0) completedPhases[idx] = rerun;
-      else completedPhases.push(rerun);
+      await this.revisePhase(phase, project, completedPhases, 'critic', issues, requests);
     }
 
     // Re-run Critic
@@ -391,6 +1458,7 @@ Return corrected JSON matching the schema. No prose, no markdown code blocks.`;
     // Re-run Composer so Build Plan/Prompts get the fixes
     const composerPhase = byType['composer'];
     if (composerPhase) {
+      this.emit({ type: 'stage_started', stage: 'composer' });
       const rerunComposer = await this.runPhase(
         composerPhase,
         project,
@@ -408,6 +1476,13 @@ Return corrected JSON matching the schema. No prose, no markdown code blocks.`;
       return;
     }
 
+    // A resumed run may fail after prompts were already written
+    const existing = await this.store.countPrompts(this.projectId);
+    if (existing > 0) {
+      this.emit({ type: 'prompts_persisted', bolt: 0, cursor: 0, skipped: true });
+      return;
+    }
+
     const { bolt = [], cursor = [] } = promptPhase.output;
 
     // Basic guard: ensure required tasks exist by title
@@ -420,9 +1495,11 @@ Return corrected JSON matching the schema. No prose, no markdown code blocks.`;
       }
     }
 
+    const rows: NewPrompt[] = [];
+
     for (let i = 0; i < bolt.length; i++) {
       const p = bolt[i];
-      await supabase.from('prompts').insert({
+      rows.push({
         project_id: this.projectId,
         tool: 'bolt',
         title: p.title,
@@ -433,7 +1510,7 @@ Return corrected JSON matching the schema. No prose, no markdown code blocks.`;
 
     for (let i = 0; i < cursor.length; i++) {
       const p = cursor[i];
-      await supabase.from('prompts').insert({
+      rows.push({
         project_id: this.projectId,
         tool: 'cursor',
         title: p.title,
@@ -441,6 +1518,14 @@ Return corrected JSON matching the schema. No prose, no markdown code blocks.`;
         order: i
       });
     }
+
+    await this.store.insertPrompts(rows);
+    this.emit({
+      type: 'prompts_persisted',
+      bolt: bolt.length,
+      cursor: cursor.length,
+      skipped: false
+    });
   }
 
   private formatPrompt(prompt: any): string {
@@ -472,10 +1557,16 @@ Return corrected JSON matching the schema. No prose, no markdown code blocks.`;
     return content;
   }
 
-  private notifyProgress(progress: OrchestrationProgress): void {
-    if (this.onProgress) {
-      this.onProgress(progress);
-    }
+  private emit(event: OrchestrationEventBody): void {
+    this.onEvent?.({ ...event, at: new Date().toISOString() });
+  }
+
+  private emitInvalid(phase: PhaseType, attempt: number, errors: string[]): void {
+    this.emit({ type: 'validation_failed', phase, attempt, errors });
+  }
+
+  private emitRejected(phase: PhaseType, attempt: number, reason: string): void {
+    this.emit({ type: 'revision_rejected', phase, attempt, reason });
   }
 
   /**
@@ -524,3 +1615,31 @@ Return corrected JSON matching the schema. No prose, no markdown code blocks.`;
     }
   }
 }
+
+/**
+ * Group [phase, request] pairs by lower-cased phase type, preserving order.
+ */
+function groupRequests(pairs: Array<[unknown, unknown]>): Map<string, string[]> {
+  const grouped = new Map<string, string[]>();
+  for (const [phase, request] of pairs) {
+    const type = String(phase || '').toLowerCase();
+    if (!type || !request) continue;
+    const list = grouped.get(type) ?? [];
+    list.push(String(request));
+    grouped.set(type, list);
+  }
+  return grouped;
+}
+
+function toPhaseRequests(grouped: Map<string, string[]>): PhaseRequests[] {
+  return Array.from(grouped, ([phase, requests]) => ({ phase, requests }));
+}
+
+function parsesAsJSON(content: string): boolean {
+  try {
+    parseJSONResponse(content);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,566 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AGENT_PHASES, getPhaseDescendants, type PhaseType } from './agents';
+import type {
+  BriefField,
+  ChangeRequest,
+  Decision,
+  LLMCall,
+  PlanningPhase,
+  PlanningRun,
+  Project,
+  Prompt
+} from './supabase';
+
+export type NewProject = Pick<Project, 'name' | 'description'> &
+  Partial<Omit<Project, 'id' | 'created_at' | 'updated_at'>>;
+export type NewPlanningRun = Pick<PlanningRun, 'project_id' | 'kind'>;
+export type NewPlanningPhase = Pick<PlanningPhase, 'project_id' | 'phase_type' | 'status'> &
+  Partial<Pick<PlanningPhase, 'run_id' | 'revision_source'>>;
+export type PhaseFilter = { status?: PlanningPhase['status']; current?: boolean };
+export type NewChangeRequest = Pick<ChangeRequest, 'project_id' | 'summary' | 'changes'>;
+export type NewPrompt = Omit<Prompt, 'id' | 'created_at'>;
+export type NewLLMCall = Omit<LLMCall, 'id' | 'created_at'>;
+
+/**
+ * Persistence used by AgentOrchestrator. Implementations throw on failure;
+ * lists come back ordered by creation time.
+ */
+export interface PlanStore {
+  insertProject(row: NewProject): Promise<Project>;
+  getProject(projectId: string): Promise<Project | null>;
+  updateProject(projectId: string, patch: Partial<Project>): Promise<void>;
+  insertRun(row: NewPlanningRun): Promise<PlanningRun>;
+  updateRun(runId: string, patch: Partial<PlanningRun>): Promise<void>;
+  insertPhase(row: NewPlanningPhase): Promise<PlanningPhase>;
+  updatePhase(phaseId: string, patch: Partial<PlanningPhase>): Promise<PlanningPhase>;
+  // Make the row the current version of its phase type, superseding the previous one
+  promotePhase(phaseId: string): Promise<PlanningPhase>;
+  listPhases(projectId: string, filter?: PhaseFilter): Promise<PlanningPhase[]>;
+  // Save a pending change request and write its `after` values to the
+  // project's brief, both or neither
+  recordChangeRequest(row: NewChangeRequest): Promise<ChangeRequest>;
+  updateChangeRequest(requestId: string, patch: Partial<ChangeRequest>): Promise<void>;
+  listChangeRequests(projectId: string): Promise<ChangeRequest[]>;
+  countPrompts(projectId: string): Promise<number>;
+  listPrompts(projectId: string): Promise<Prompt[]>;
+  insertPrompts(rows: NewPrompt[]): Promise<void>;
+  deletePrompts(projectId: string): Promise<void>;
+  insertLLMCall(row: NewLLMCall): Promise<string>;
+  updateLLMCall(callId: string, patch: Partial<LLMCall>): Promise<void>;
+}
+
+export class SupabasePlanStore implements PlanStore {
+  private client: SupabaseClient;
+
+  constructor(client: SupabaseClient) {
+    this.client = client;
+  }
+
+  async insertProject(row: NewProject): Promise<Project> {
+    const { data, error } = await this.client.from('projects').insert(row).select().single();
+
+    if (error) throw error;
+    if (!data) {
+      throw new Error(`Failed to create project ${row.name}`);
+    }
+    return data;
+  }
+
+  async getProject(projectId: string): Promise<Project | null> {
+    const { data, error } = await this.client
+      .from('projects')
+      .select('*')
+      .eq('id', projectId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateProject(projectId: string, patch: Partial<Project>): Promise<void> {
+    const { error } = await this.client.from('projects').update(patch).eq('id', projectId);
+    if (error) throw error;
+  }
+
+  async insertRun(row: NewPlanningRun): Promise<PlanningRun> {
+    const { data, error } = await this.client.from('planning_runs').insert(row).select().single();
+
+    if (error) throw error;
+    if (!data) {
+      throw new Error(`Failed to create run for project ${row.project_id}`);
+    }
+    return data;
+  }
+
+  async updateRun(runId: string, patch: Partial<PlanningRun>): Promise<void> {
+    const { error } = await this.client.from('planning_runs').update(patch).eq('id', runId);
+    if (error) throw error;
+  }
+
+  async insertPhase(row: NewPlanningPhase): Promise<PlanningPhase> {
+    const { data, error } = await this.client
+      .from('planning_phases')
+      .insert(row)
+      .select()
+      .single();
+
+    if (error) throw error;
+    if (!data) {
+      throw new Error(`Failed to create phase record for ${row.phase_type}`);
+    }
+    return data;
+  }
+
+  async updatePhase(phaseId: string, patch: Partial<PlanningPhase>): Promise<PlanningPhase> {
+    const { data, error } = await this.client
+      .from('planning_phases')
+      .update(patch)
+      .eq('id', phaseId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async promotePhase(phaseId: string): Promise<PlanningPhase> {
+    // One call so the project never has zero or two current versions
+    const { data, error } = await this.client.rpc('promote_planning_phase', {
+      p_phase_id: phaseId
+    });
+
+    if (error) throw error;
+    const rows = (data ?? []) as PlanningPhase[];
+    if (!rows[0]) throw new Error(`Phase not found: ${phaseId}`);
+    return rows[0];
+  }
+
+  async listPhases(projectId: string, filter: PhaseFilter = {}): Promise<PlanningPhase[]> {
+    let query = this.client.from('planning_phases').select('*').eq('project_id', projectId);
+    if (filter.status) query = query.eq('status', filter.status);
+    if (filter.current !== undefined) query = query.eq('is_current', filter.current);
+
+    const { data, error } = await query.order('created_at', { ascending: true });
+    if (error) throw error;
+    return data || [];
+  }
+
+  async recordChangeRequest(row: NewChangeRequest): Promise<ChangeRequest> {
+    // One call so the brief and its change request are written together
+    const { data, error } = await this.client.rpc('record_change_request', {
+      p_project_id: row.project_id,
+      p_summary: row.summary,
+      p_changes: row.changes
+    });
+
+    if (error) throw error;
+    const rows = (data ?? []) as ChangeRequest[];
+    if (!rows[0]) {
+      throw new Error(`Failed to create change request for project ${row.project_id}`);
+    }
+    return rows[0];
+  }
+
+  async updateChangeRequest(requestId: string, patch: Partial<ChangeRequest>): Promise<void> {
+    const { error } = await this.client.from('change_requests').update(patch).eq('id', requestId);
+    if (error) throw error;
+  }
+
+  async listChangeRequests(projectId: string): Promise<ChangeRequest[]> {
+    const { data, error } = await this.client
+      .from('change_requests')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async countPrompts(projectId: string): Promise<number> {
+    const { count, error } = await this.client
+      .from('prompts')
+      .select('id', { count: 'exact', head: true })
+      .eq('project_id', projectId);
+
+    if (error) throw error;
+    return count ?? 0;
+  }
+
+  async listPrompts(projectId: string): Promise<Prompt[]> {
+    const { data, error } = await this.client
+      .from('prompts')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('order', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async insertPrompts(rows: NewPrompt[]): Promise<void> {
+    if (rows.length === 0) return;
+    const { error } = await this.client.from('prompts').insert(rows);
+    if (error) throw error;
+  }
+
+  async deletePrompts(projectId: string): Promise<void> {
+    const { error } = await this.client.from('prompts').delete().eq('project_id', projectId);
+    if (error) throw error;
+  }
+
+  async insertLLMCall(row: NewLLMCall): Promise<string> {
+    const { data, error } = await this.client
+      .from('llm_calls')
+      .insert(row)
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  }
+
+  async updateLLMCall(callId: string, patch: Partial<LLMCall>): Promise<void> {
+    const { error } = await this.client.from('llm_calls').update(patch).eq('id', callId);
+    if (error) throw error;
+  }
+}
+
+/**
+ * Store backed by plain arrays, for tests and offline runs. Rows are exposed
+ * so callers can assert on what the orchestrator persisted.
+ */
+export class InMemoryPlanStore implements PlanStore {
+  readonly projects = new Map<string, Project>();
+  readonly runs: PlanningRun[] = [];
+  readonly phases: PlanningPhase[] = [];
+  readonly changeRequests: ChangeRequest[] = [];
+  readonly prompts: Prompt[] = [];
+  readonly llmCalls: LLMCall[] = [];
+  private seq = 0;
+
+  createProject(input: Pick<Project, 'name' | 'description'> & Partial<Project>): Project {
+    const now = new Date().toISOString();
+    const project: Project = {
+      status: 'draft',
+      competitor_links: [],
+      competitor_reviews: [],
+      created_at: now,
+      updated_at: now,
+      ...input,
+      id: input.id ?? this.nextId('project')
+    };
+    this.projects.set(project.id, project);
+    return project;
+  }
+
+  async insertProject(row: NewProject): Promise<Project> {
+    return { ...this.createProject(row) };
+  }
+
+  async getProject(projectId: string): Promise<Project | null> {
+    return this.projects.get(projectId) ?? null;
+  }
+
+  async updateProject(projectId: string, patch: Partial<Project>): Promise<void> {
+    const project = this.projects.get(projectId);
+    if (!project) throw new Error(`Project not found: ${projectId}`);
+    this.projects.set(projectId, { ...project, ...patch });
+  }
+
+  async insertRun(row: NewPlanningRun): Promise<PlanningRun> {
+    const run: PlanningRun = {
+      ...row,
+      id: this.nextId('run'),
+      status: 'running',
+      started_at: new Date().toISOString()
+    };
+    this.runs.push(run);
+    return { ...run };
+  }
+
+  async updateRun(runId: string, patch: Partial<PlanningRun>): Promise<void> {
+    const idx = this.runs.findIndex((r) => r.id === runId);
+    if (idx < 0) throw new Error(`Run not found: ${runId}`);
+    this.runs[idx] = { ...this.runs[idx], ...patch };
+  }
+
+  async insertPhase(row: NewPlanningPhase): Promise<PlanningPhase> {
+    const phase: PlanningPhase = {
+      ...row,
+      id: this.nextId('phase'),
+      output: null,
+      is_current: false,
+      created_at: new Date().toISOString()
+    };
+    this.phases.push(phase);
+    return { ...phase };
+  }
+
+  async updatePhase(phaseId: string, patch: Partial<PlanningPhase>): Promise<PlanningPhase> {
+    const idx = this.phases.findIndex((p) => p.id === phaseId);
+    if (idx < 0) throw new Error(`Phase not found: ${phaseId}`);
+    this.phases[idx] = { ...this.phases[idx], ...patch };
+    return { ...this.phases[idx] };
+  }
+
+  async promotePhase(phaseId: string): Promise<PlanningPhase> {
+    const target = this.phases.find((p) => p.id === phaseId);
+    if (!target) throw new Error(`Phase not found: ${phaseId}`);
+
+    const siblings = this.phases.filter(
+      (p) => p.project_id === target.project_id && p.phase_type === target.phase_type
+    );
+    for (const sibling of siblings) sibling.is_current = false;
+    target.is_current = true;
+    if (target.version == null) {
+      target.version = Math.max(0, ...siblings.map((p) => p.version ?? 0)) + 1;
+    }
+    return { ...target };
+  }
+
+  async listPhases(projectId: string, filter: PhaseFilter = {}): Promise<PlanningPhase[]> {
+    return this.phases
+      .filter((p) => p.project_id === projectId)
+      .filter((p) => !filter.status || p.status === filter.status)
+      .filter((p) => filter.current === undefined || Boolean(p.is_current) === filter.current)
+      .map((p) => ({ ...p }));
+  }
+
+  async recordChangeRequest(row: NewChangeRequest): Promise<ChangeRequest> {
+    const project = this.projects.get(row.project_id);
+    if (!project) throw new Error(`Project not found: ${row.project_id}`);
+    this.projects.set(row.project_id, {
+      ...project,
+      ...Object.fromEntries(row.changes.map((c) => [c.field, c.after])),
+      updated_at: new Date().toISOString()
+    });
+
+    const request: ChangeRequest = {
+      ...row,
+      id: this.nextId('change'),
+      status: 'pending',
+      created_at: new Date().toISOString()
+    };
+    this.changeRequests.push(request);
+    return { ...request };
+  }
+
+  async updateChangeRequest(requestId: string, patch: Partial<ChangeRequest>): Promise<void> {
+    const idx = this.changeRequests.findIndex((r) => r.id === requestId);
+    if (idx < 0) throw new Error(`Change request not found: ${requestId}`);
+    this.changeRequests[idx] = { ...this.changeRequests[idx], ...patch };
+  }
+
+  async listChangeRequests(projectId: string): Promise<ChangeRequest[]> {
+    return this.changeRequests
+      .filter((r) => r.project_id === projectId)
+      .map((r) => ({ ...r }));
+  }
+
+  async countPrompts(projectId: string): Promise<number> {
+    return this.prompts.filter((p) => p.project_id === projectId).length;
+  }
+
+  async listPrompts(projectId: string): Promise<Prompt[]> {
+    return this.prompts
+      .filter((p) => p.project_id === projectId)
+      .sort((a, b) => a.order - b.order)
+      .map((p) => ({ ...p }));
+  }
+
+  async insertPrompts(rows: NewPrompt[]): Promise<void> {
+    for (const row of rows) {
+      this.prompts.push({ ...row, id: this.nextId('prompt'), created_at: new Date().toISOString() });
+    }
+  }
+
+  async deletePrompts(projectId: string): Promise<void> {
+    for (let i = this.prompts.length - 1; i >= 0; i--) {
+      if (this.prompts[i].project_id === projectId) this.prompts.splice(i, 1);
+    }
+  }
+
+  async insertLLMCall(row: NewLLMCall): Promise<string> {
+    const id = this.nextId('llm');
+    this.llmCalls.push({ ...row, id, created_at: new Date().toISOString() });
+    return id;
+  }
+
+  async updateLLMCall(callId: string, patch: Partial<LLMCall>): Promise<void> {
+    const idx = this.llmCalls.findIndex((c) => c.id === callId);
+    if (idx >= 0) this.llmCalls[idx] = { ...this.llmCalls[idx], ...patch };
+  }
+
+  private nextId(prefix: string): string {
+    this.seq += 1;
+    return `${prefix}-${this.seq}`;
+  }
+}
+
+/**
+ * Current completed version per phase type, in AGENT_PHASES order. This is the
+ * plan as it stands; phases that are stale or were never completed are missing.
+ */
+export async function loadLatestCompletedPhases(
+  store: PlanStore,
+  projectId: string
+): Promise<PlanningPhase[]> {
+  const rows = await store.listPhases(projectId, { status: 'completed', current: true });
+
+  const latest = new Map<string, PlanningPhase>();
+  for (const row of rows) {
+    latest.set(row.phase_type, row);
+  }
+
+  return AGENT_PHASES.map((p) => latest.get(p.type)).filter(
+    (p): p is PlanningPhase => Boolean(p)
+  );
+}
+
+/**
+ * Replace a phase's output with a manual edit and mark every phase built on it
+ * `stale`. The edit is saved as a new version of the phase, so the previous
+ * output stays in the version history. Saved prompts are dropped when
+ * the Prompts phase is edited or goes stale. Returns the stale phase types;
+ * `resume` regenerates them.
+ */
+export async function applyPhaseEdit(
+  store: PlanStore,
+  projectId: string,
+  type: PhaseType,
+  output: unknown
+): Promise<PhaseType[]> {
+  const stale = getPhaseDescendants(type);
+  const now = new Date().toISOString();
+
+  const row = await store.insertPhase({ project_id: projectId, phase_type: type, status: 'completed' });
+  await store.updatePhase(row.id, {
+    output,
+    model_used: 'manual edit',
+    edited_at: now,
+    completed_at: now
+  });
+  await store.promotePhase(row.id);
+
+  await markPhasesStale(store, projectId, stale);
+  if (type === 'prompts') await store.deletePrompts(projectId);
+
+  return stale;
+}
+
+/**
+ * Mark the current completed rows of `types` as `stale` so the next run
+ * regenerates them. Saved prompts are dropped when the Prompts phase is one
+ * of them.
+ */
+export async function markPhasesStale(
+  store: PlanStore,
+  projectId: string,
+  types: PhaseType[]
+): Promise<void> {
+  const rows = await store.listPhases(projectId, { status: 'completed', current: true });
+  for (const existing of rows) {
+    if (types.includes(existing.phase_type)) {
+      await store.updatePhase(existing.id, { status: 'stale' });
+    }
+  }
+
+  if (types.includes('prompts')) {
+    await store.deletePrompts(projectId);
+  }
+}
+
+export type BriefChanges = Partial<Pick<Project, BriefField>>;
+
+/**
+ * Amend a planned project's brief. The new values are saved on the project
+ * together with a `pending` change request recording what changed and why
+ * (see PlanStore.recordChangeRequest); the next
+ * `resume` analyses which phases it affects and regenerates only those.
+ * Fields equal to the current brief are ignored.
+ */
+export async function submitChangeRequest(
+  store: PlanStore,
+  project: Project,
+  summary: string,
+  brief: BriefChanges
+): Promise<ChangeRequest> {
+  const open = (await store.listChangeRequests(project.id)).find((r) => r.status !== 'applied');
+  if (open) {
+    throw new Error(`Change request "${open.summary}" has not been applied yet`);
+  }
+
+  const changes: ChangeRequest['changes'] = [];
+  for (const field of ['description', 'competitor_links', 'competitor_reviews'] as const) {
+    const after = brief[field];
+    if (after === undefined) continue;
+    const before = project[field] ?? (field === 'description' ? '' : []);
+    if (JSON.stringify(before) !== JSON.stringify(after)) changes.push({ field, before, after });
+  }
+  if (changes.length === 0) {
+    throw new Error('The change request does not change the brief');
+  }
+
+  return store.recordChangeRequest({ project_id: project.id, summary, changes });
+}
+
+export type ForkOptions = {
+  name: string;
+  // Last phase copied from the parent, in AGENT_PHASES order
+  forkPoint: PhaseType;
+  // Decision Ledger entries that replace the parent's (by key) on the branch
+  decisionOverrides: Decision[];
+};
+
+/**
+ * Create a branch of `parent`: a new project with the same brief whose plan
+ * starts from the parent's current completed phases up to and including
+ * `forkPoint`. The copies become version 1 of the branch's phases; `resume`
+ * then plans the remaining phases with the overrides applied to the Decision
+ * Ledger. The parent is left untouched.
+ */
+export async function forkProject(
+  store: PlanStore,
+  parent: Project,
+  options: ForkOptions
+): Promise<Project> {
+  const cutoff = AGENT_PHASES.findIndex((p) => p.type === options.forkPoint);
+  if (cutoff < 0) throw new Error(`Unknown phase: ${options.forkPoint}`);
+  const copied = AGENT_PHASES.slice(0, cutoff + 1).map((p) => p.type);
+
+  const branch = await store.insertProject({
+    name: options.name,
+    description: parent.description,
+    competitor_links: parent.competitor_links ?? [],
+    competitor_reviews: parent.competitor_reviews ?? [],
+    budget_usd: parent.budget_usd ?? null,
+    approval_phases: parent.approval_phases ?? [],
+    sample_counts: parent.sample_counts ?? null,
+    fallback_chain: parent.fallback_chain ?? null,
+    routing: parent.routing ?? null,
+    parent_project_id: parent.id,
+    fork_point: options.forkPoint,
+    decision_overrides: options.decisionOverrides,
+    status: 'draft'
+  });
+
+  const rows = await loadLatestCompletedPhases(store, parent.id);
+  for (const source of rows) {
+    if (!copied.includes(source.phase_type)) continue;
+    const row = await store.insertPhase({
+      project_id: branch.id,
+      phase_type: source.phase_type,
+      status: 'completed'
+    });
+    await store.updatePhase(row.id, {
+      output: source.output,
+      model_used: source.model_used,
+      edited_at: source.edited_at ?? null,
+      completed_at: source.completed_at ?? new Date().toISOString()
+    });
+    await store.promotePhase(row.id);
+  }
+
+  return branch;
+}
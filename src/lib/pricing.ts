@@ -0,0 +1,71 @@
+import type { AIUsage } from './ai-client';
+
+export type ModelPrice = {
+  // USD per million tokens
+  inputPerMillion: number;
+  outputPerMillion: number;
+};
+
+/**
+ * Keyed by model name prefix so dated snapshots returned by providers
+ * (e.g. `gpt-4o-mini-2024-07-18`) resolve to their family price.
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICES: PriceTable = {
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'claude-3-5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'claude-3-5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-7-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gemini-1.5-flash': { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  'gemini-1.5-pro': { inputPerMillion: 1.25, outputPerMillion: 5 },
+  'mistral-small': { inputPerMillion: 0.1, outputPerMillion: 0.3 },
+  'mistral-large': { inputPerMillion: 2, outputPerMillion: 6 },
+  'open-mistral-nemo': { inputPerMillion: 0.15, outputPerMillion: 0.15 }
+};
+
+export type UsageTotals = AIUsage & {
+  costUsd: number;
+};
+
+export function emptyUsage(): UsageTotals {
+  return { inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+export function addUsage(total: UsageTotals, usage: UsageTotals): UsageTotals {
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    costUsd: total.costUsd + usage.costUsd
+  };
+}
+
+/**
+ * Longest matching prefix wins, so `gpt-4o-mini` is not priced as `gpt-4o`.
+ * Unknown models cost 0 and are logged.
+ */
+export function computeCost(
+  model: string,
+  usage: AIUsage,
+  prices: PriceTable = DEFAULT_PRICES
+): number {
+  const key = Object.keys(prices)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!key) {
+    console.warn(`No price configured for model ${model}; counting cost as 0`);
+    return 0;
+  }
+
+  const price = prices[key];
+  return (
+    (usage.inputTokens * price.inputPerMillion +
+      usage.outputTokens * price.outputPerMillion) /
+    1_000_000
+  );
+}
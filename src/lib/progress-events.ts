@@ -0,0 +1,272 @@
+import { AGENT_PHASES, type PhaseType } from './agents';
+import type { UsageTotals } from './pricing';
+
+export type RunStage = 'impact' | 'phases' | 'checklist' | 'critic' | 'composer' | 'prompts';
+
+export type PhaseRequests = { phase: string; requests: string[] };
+
+/**
+ * What the orchestrator emits while it runs. `usage` fields are the project's
+ * running totals (across runs); `phaseUsage` covers one phase row.
+ */
+export type OrchestrationEventBody =
+  | {
+      type: 'run_started';
+      reusedPhases: PhaseType[];
+      // Phases regenerated after a manual edit; empty for a normal run
+      stalePhases: PhaseType[];
+      // Summary of the change request the run applies
+      changeRequest?: string;
+      usage: UsageTotals;
+      budgetUsd: number | null;
+    }
+  | { type: 'stage_started'; stage: RunStage }
+  | { type: 'impact_analyzed'; impacted: PhaseType[]; rationale: string }
+  | { type: 'phase_started'; phase: PhaseType; revision?: 'checklist' | 'critic' | 'review' }
+  | { type: 'phase_attempt'; phase: PhaseType; attempt: number; maxAttempts: number }
+  | { type: 'validation_failed'; phase: PhaseType; attempt: number; errors: string[] }
+  | { type: 'phase_repair'; phase: PhaseType; attempt: number }
+  // Best-of-N: one total per candidate (null if invalid), index of the kept one
+  | { type: 'candidates_scored'; phase: PhaseType; scores: Array<number | null>; selected: number | null }
+  | { type: 'revision_rejected'; phase: PhaseType; attempt: number; reason: string }
+  // Every attempt at a revision was rejected; the phase keeps its previous output
+  | { type: 'revision_discarded'; phase: PhaseType; reason: string; usage: UsageTotals }
+  // The routed provider/model kept failing; `to` answered instead. `phase` is a
+  // phase type, or `impact` for an impact analysis
+  | { type: 'model_fallback'; phase: string; from: string[]; to: string; reason: string }
+  | {
+      type: 'phase_completed';
+      phase: PhaseType;
+      model: string;
+      phaseUsage: UsageTotals;
+      usage: UsageTotals;
+    }
+  | { type: 'phase_failed'; phase: PhaseType; error: string; cancelled: boolean; usage: UsageTotals }
+  | { type: 'approval_requested'; phase: PhaseType }
+  | { type: 'checklist_result'; status: 'pass' | 'fail'; failItems: string[]; revisions: PhaseRequests[] }
+  | { type: 'critic_revisions'; severity: number; revisions: PhaseRequests[] }
+  | { type: 'prompts_persisted'; bolt: number; cursor: number; skipped: boolean }
+  | { type: 'run_paused'; awaiting: PhaseType[]; usage: UsageTotals }
+  | { type: 'run_completed'; usage: UsageTotals }
+  | { type: 'run_failed'; error: string; cancelled: boolean; usage: UsageTotals };
+
+export type OrchestrationEvent = OrchestrationEventBody & {
+  // ISO timestamp
+  at: string;
+};
+
+/**
+ * State derived from the event stream; what progress UIs render.
+ */
+export type OrchestrationProgress = {
+  // Stage label, or the names of the phases running right now
+  currentPhase: string;
+  // Phase types running right now; several when independent phases overlap
+  activePhases: string[];
+  completedPhases: string[];
+  // Finished phases held at an approval gate
+  awaitingApproval: string[];
+  totalPhases: number;
+  error?: string;
+  cancelled?: boolean;
+  // Tokens and cost spent on the project so far, across runs
+  usage?: UsageTotals;
+  budgetUsd?: number | null;
+  // provider/model that answered a phase after a fallback, by phase type
+  fallbacks: Record<string, string>;
+  // Every event of the current run, oldest first
+  events: OrchestrationEvent[];
+};
+
+const STAGE_LABELS: Record<RunStage, string> = {
+  impact: 'Impact Analysis',
+  phases: 'Planning',
+  checklist: 'Quality Checklist',
+  critic: 'Critic Revisions',
+  composer: 'Composer',
+  prompts: 'Prompts'
+};
+
+export function initialProgress(): OrchestrationProgress {
+  return {
+    currentPhase: '',
+    activePhases: [],
+    completedPhases: [],
+    awaitingApproval: [],
+    totalPhases: AGENT_PHASES.length,
+    fallbacks: {},
+    events: []
+  };
+}
+
+export function phaseName(type: string): string {
+  return AGENT_PHASES.find((p) => p.type === type)?.name ?? type;
+}
+
+/**
+ * Fold one event into the progress view. Pure, so the worker, the CLI and
+ * the browser all derive the same state from the same events.
+ */
+export function applyEvent(
+  progress: OrchestrationProgress,
+  event: OrchestrationEvent
+): OrchestrationProgress {
+  const next: OrchestrationProgress = { ...progress, events: [...progress.events, event] };
+  const activeLabel = (active: string[]) =>
+    AGENT_PHASES.filter((p) => active.includes(p.type))
+      .map((p) => p.name)
+      .join(' + ');
+
+  switch (event.type) {
+    case 'run_started':
+      return {
+        ...initialProgress(),
+        events: [event],
+        currentPhase: STAGE_LABELS.phases,
+        completedPhases: [...event.reusedPhases],
+        usage: event.usage,
+        budgetUsd: event.budgetUsd
+      };
+    case 'stage_started':
+      return { ...next, currentPhase: STAGE_LABELS[event.stage] };
+    case 'impact_analyzed':
+      return {
+        ...next,
+        completedPhases: next.completedPhases.filter(
+          (p) => !event.impacted.includes(p as PhaseType)
+        )
+      };
+    case 'model_fallback':
+      return { ...next, fallbacks: { ...next.fallbacks, [event.phase]: event.to } };
+    case 'phase_started': {
+      const activePhases = [...next.activePhases.filter((p) => p !== event.phase), event.phase];
+      return { ...next, activePhases, currentPhase: activeLabel(activePhases) };
+    }
+    case 'phase_completed':
+    case 'phase_failed':
+    case 'revision_discarded': {
+      const activePhases = next.activePhases.filter((p) => p !== event.phase);
+      const completedPhases =
+        event.type === 'phase_completed' && !next.completedPhases.includes(event.phase)
+          ? [...next.completedPhases, event.phase]
+          : next.completedPhases;
+      return {
+        ...next,
+        activePhases,
+        completedPhases,
+        currentPhase: activePhases.length > 0 ? activeLabel(activePhases) : next.currentPhase,
+        usage: event.usage
+      };
+    }
+    case 'approval_requested':
+      return {
+        ...next,
+        completedPhases: next.completedPhases.filter((p) => p !== event.phase),
+        awaitingApproval: [
+          ...next.awaitingApproval.filter((p) => p !== event.phase),
+          event.phase
+        ]
+      };
+    case 'run_paused':
+      return {
+        ...next,
+        currentPhase: 'Waiting for approval',
+        activePhases: [],
+        awaitingApproval: [...event.awaiting],
+        usage: event.usage
+      };
+    case 'run_completed':
+      return {
+        ...next,
+        currentPhase: 'Completed',
+        activePhases: [],
+        completedPhases: AGENT_PHASES.map((p) => p.type),
+        usage: event.usage
+      };
+    case 'run_failed':
+      return {
+        ...next,
+        activePhases: [],
+        error: event.error,
+        cancelled: event.cancelled,
+        usage: event.usage
+      };
+    default:
+      return next;
+  }
+}
+
+/**
+ * One-line, human-readable description of an event (timeline rows, CLI output).
+ */
+export function describeEvent(event: OrchestrationEventBody): string {
+  const requests = (revisions: PhaseRequests[]) =>
+    revisions.map((r) => `${phaseName(r.phase)} (${r.requests.length})`).join(', ');
+
+  switch (event.type) {
+    case 'run_started':
+      if (event.changeRequest) {
+        return `Applying change request: ${event.changeRequest}`;
+      }
+      if (event.stalePhases.length > 0) {
+        return `Regenerating ${event.stalePhases.length} stale phases: ${event.stalePhases.map(phaseName).join(', ')}`;
+      }
+      return event.reusedPhases.length > 0
+        ? `Resumed; reusing ${event.reusedPhases.length} completed phases`
+        : 'Run started';
+    case 'stage_started':
+      return `Stage: ${STAGE_LABELS[event.stage]}`;
+    case 'impact_analyzed':
+      return event.impacted.length > 0
+        ? `Change affects ${event.impacted.length} phases: ${event.impacted.map(phaseName).join(', ')}`
+        : 'Change affects no phases';
+    case 'phase_started':
+      return event.revision
+        ? `${phaseName(event.phase)} revising (${event.revision})`
+        : `${phaseName(event.phase)} started`;
+    case 'phase_attempt':
+      return `${phaseName(event.phase)} attempt ${event.attempt} of ${event.maxAttempts}`;
+    case 'validation_failed':
+      return `${phaseName(event.phase)} attempt ${event.attempt} invalid: ${event.errors.slice(0, 3).join('; ')}${
+        event.errors.length > 3 ? ` (+${event.errors.length - 3} more)` : ''
+      }`;
+    case 'phase_repair':
+      return `${phaseName(event.phase)} repair requested (attempt ${event.attempt})`;
+    case 'revision_rejected':
+      return `${phaseName(event.phase)} revision rejected: ${event.reason}`;
+    case 'revision_discarded':
+      return `${phaseName(event.phase)} kept its previous output; revision rejected: ${event.reason}`;
+    case 'model_fallback':
+      return `${phaseName(event.phase)}: ${event.from.join(', ')} unavailable (${event.reason}); fell back to ${event.to}`;
+    case 'candidates_scored':
+      return event.selected === null
+        ? `${phaseName(event.phase)}: none of ${event.scores.length} candidates was valid; repairing`
+        : `${phaseName(event.phase)}: kept candidate ${event.selected + 1} of ${event.scores.length} (score ${event.scores[
+            event.selected
+          ]?.toFixed(1)})`;
+    case 'phase_completed':
+      return `${phaseName(event.phase)} completed · ${event.model} · $${event.phaseUsage.costUsd.toFixed(4)}`;
+    case 'phase_failed':
+      return `${phaseName(event.phase)} ${event.cancelled ? 'cancelled' : `failed: ${event.error}`}`;
+    case 'approval_requested':
+      return `${phaseName(event.phase)} is waiting for approval`;
+    case 'checklist_result':
+      return event.status === 'pass'
+        ? 'Quality checklist passed'
+        : `Quality checklist failed: ${event.failItems.join(', ')}; revising ${requests(event.revisions)}`;
+    case 'critic_revisions':
+      return event.revisions.length > 0
+        ? `Critic (severity ${event.severity.toFixed(2)}) sent back ${requests(event.revisions)}`
+        : `Critic (severity ${event.severity.toFixed(2)}) requested no revisions`;
+    case 'prompts_persisted':
+      return event.skipped
+        ? 'Prompts were already saved'
+        : `Saved ${event.bolt} Bolt and ${event.cursor} Cursor prompts`;
+    case 'run_paused':
+      return `Paused for review of ${event.awaiting.map(phaseName).join(', ')}`;
+    case 'run_completed':
+      return `Run completed · $${event.usage.costUsd.toFixed(4)}`;
+    case 'run_failed':
+      return event.cancelled ? 'Run cancelled' : `Run failed: ${event.error}`;
+  }
+}
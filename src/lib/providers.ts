@@ -0,0 +1,76 @@
+import { dropNullOptionals, toStrictSchema, type JSONSchema } from './structured-output';
+
+// `mock` records/replays fixtures instead of calling a model (see mock-provider.ts)
+export type AIProvider = 'openai' | 'anthropic' | 'gemini' | 'mistral' | 'openai-compatible' | 'mock';
+
+/**
+ * Client half of a provider adapter; the proxy half (supabase/functions/ai-proxy/adapters.ts)
+ * maps the normalized request onto the provider's API and its reply back.
+ */
+export type ProviderAdapter = {
+  // Model the proxy falls back to when a request names none; empty when only
+  // the proxy's configuration knows it
+  defaultModel: string;
+  // Hints for the proxy to pass down to the provider. `schema` is the JSON
+  // Schema the reply must match, for providers that can enforce it natively
+  hints(schema?: JSONSchema): Record<string, unknown>;
+  // Maps a reply produced under those hints back onto `schema`
+  normalizeContent?(content: string, schema: JSONSchema): string;
+};
+
+// Name the schema is registered under in the provider request
+const SCHEMA_NAME = 'phase_output';
+
+export const PROVIDERS: Record<AIProvider, ProviderAdapter> = {
+  openai: {
+    defaultModel: 'gpt-4o-mini',
+    hints: (schema) => {
+      const strict = schema && toStrictSchema(schema);
+      return {
+        // Strict structured output when the schema allows it, JSON mode otherwise
+        response_format: strict
+          ? { type: 'json_schema', json_schema: { name: SCHEMA_NAME, strict: true, schema: strict } }
+          : { type: 'json_object' },
+        // Strong nudge not to include markdown fences:
+        forbid_markdown: true
+      };
+    },
+    normalizeContent: (content, schema) => {
+      if (!toStrictSchema(schema)) return content;
+      try {
+        return JSON.stringify(dropNullOptionals(JSON.parse(content), schema));
+      } catch {
+        // Left to parseJSONResponse and validation
+        return content;
+      }
+    }
+  },
+  // Anthropic has no JSON mode; a forced tool call whose input is the schema
+  // constrains the reply instead
+  anthropic: {
+    defaultModel: 'claude-3-5-sonnet-latest',
+    hints: (schema) =>
+      schema?.type === 'object'
+        ? { tool: { name: SCHEMA_NAME, input_schema: schema }, forbid_markdown: true }
+        : { forbid_markdown: true }
+  },
+  gemini: {
+    defaultModel: 'gemini-2.0-flash',
+    hints: () => ({ response_mime_type: 'application/json', forbid_markdown: true })
+  },
+  mistral: {
+    defaultModel: 'mistral-small-latest',
+    hints: () => ({ response_format: { type: 'json_object' }, forbid_markdown: true })
+  },
+  // Self-hosted servers differ in JSON mode support, so send no format hint
+  'openai-compatible': {
+    defaultModel: '',
+    hints: () => ({ forbid_markdown: true })
+  },
+  mock: {
+    defaultModel: 'mock',
+    hints: () => ({})
+  }
+};
+
+export const PROVIDER_NAMES = Object.keys(PROVIDERS) as AIProvider[];
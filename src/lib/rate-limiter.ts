@@ -0,0 +1,101 @@
+export type RateLimit = {
+  // Requests that may go out back to back after a quiet period
+  burst: number;
+  // Sustained rate once the burst is spent
+  perMinute: number;
+};
+
+export const DEFAULT_RATE_LIMIT: RateLimit = { burst: 4, perMinute: 60 };
+
+/**
+ * Token bucket shared by every call to one provider, so parallel phases and
+ * parallel runs in one process queue up instead of stampeding it. Waiters are
+ * served in order. A rate-limit reply pauses the whole bucket, not just the
+ * call that got it.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private limit: RateLimit) {
+    this.tokens = limit.burst;
+  }
+
+  /**
+   * Resolves once a request may be sent; rejects if `signal` aborts first.
+   */
+  take(signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(() => this.waitForToken(signal));
+    // A cancelled waiter must not hold up the ones behind it
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  // Hold every caller back for `ms`, e.g. for a provider's Retry-After
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private async waitForToken(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      this.refill();
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await wait(this.pausedUntil - now, signal);
+        continue;
+      }
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await wait(((1 - this.tokens) * 60_000) / this.limit.perMinute, signal);
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.limit.burst,
+      this.tokens + ((now - this.updatedAt) * this.limit.perMinute) / 60_000
+    );
+    this.updatedAt = now;
+  }
+}
+
+const limits = new Map<string, RateLimit>();
+const buckets = new Map<string, TokenBucket>();
+
+/**
+ * Set the request rate for a provider. Takes effect for calls made after it;
+ * providers without one use DEFAULT_RATE_LIMIT.
+ */
+export function configureRateLimit(provider: string, limit: RateLimit): void {
+  limits.set(provider, limit);
+  buckets.delete(provider);
+}
+
+export function rateLimiterFor(provider: string): TokenBucket {
+  let bucket = buckets.get(provider);
+  if (!bucket) {
+    bucket = new TokenBucket(limits.get(provider) ?? DEFAULT_RATE_LIMIT);
+    buckets.set(provider, bucket);
+  }
+  return bucket;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error('Aborted'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,210 @@
+import { AGENT_PHASES, type PhaseType } from './agents';
+import { validateJSON } from './ai-client';
+import { PlanningJobQueue } from './job-queue';
+import {
+  applyPhaseEdit,
+  forkProject,
+  submitChangeRequest,
+  SupabasePlanStore,
+  type BriefChanges,
+  type ForkOptions
+} from './plan-store';
+import { initialProgress, type OrchestrationProgress } from './progress-events';
+import { supabase, type ChangeRequest, type PlanningPhase, type Project } from './supabase';
+
+// Survives reloads so a reopened tab goes back to the run it was following
+export const ACTIVE_PROJECT_KEY = 'activeProjectId';
+
+const jobQueue = new PlanningJobQueue(supabase);
+const planStore = new SupabasePlanStore(supabase);
+
+/**
+ * Hand a project to the planning workers through planning_jobs. New runs and
+ * resumes both go through the queue; the worker always resumes, so completed
+ * phases are reused.
+ */
+export async function queuePlanning(projectId: string): Promise<void> {
+  await jobQueue.enqueue(projectId);
+}
+
+/**
+ * Ask the worker running the project to stop. A project that is still waiting
+ * in the queue is cancelled directly.
+ */
+export async function requestCancel(projectId: string): Promise<void> {
+  await jobQueue.requestCancel(projectId);
+}
+
+/**
+ * Approve a phase held at an approval gate, optionally with the reviewer's
+ * edits, and queue the run again so the pipeline continues from it.
+ * Edited output must still match the phase schema.
+ */
+export async function approvePhase(phase: PlanningPhase, editedOutput?: unknown): Promise<void> {
+  const patch: Partial<PlanningPhase> = {
+    status: 'completed',
+    reviewed_at: new Date().toISOString()
+  };
+
+  if (editedOutput !== undefined) {
+    assertMatchesSchema(phase.phase_type, editedOutput);
+    patch.output = editedOutput;
+  }
+
+  const { error } = await supabase.from('planning_phases').update(patch).eq('id', phase.id);
+  if (error) throw error;
+  await planStore.promotePhase(phase.id);
+
+  await queuePlanning(phase.project_id);
+}
+
+/**
+ * Reject a gated phase; the next run re-runs it with `feedback` as the
+ * revision request before anything downstream starts.
+ */
+export async function rejectPhase(phase: PlanningPhase, feedback: string): Promise<void> {
+  const { error } = await supabase
+    .from('planning_phases')
+    .update({
+      status: 'rejected',
+      review_feedback: feedback,
+      reviewed_at: new Date().toISOString()
+    })
+    .eq('id', phase.id);
+  if (error) throw error;
+
+  await queuePlanning(phase.project_id);
+}
+
+/**
+ * Save a manual edit of a completed plan's phase. Phases built on it are
+ * marked stale (returned); `queuePlanning` then regenerates only those.
+ */
+export async function editPhaseOutput(
+  projectId: string,
+  type: PhaseType,
+  output: unknown
+): Promise<PhaseType[]> {
+  assertMatchesSchema(type, output);
+  return applyPhaseEdit(planStore, projectId, type, output);
+}
+
+/**
+ * Amend the brief of a planned project and queue the run that works out which
+ * phases the change affects and regenerates them.
+ */
+export async function requestChange(
+  project: Project,
+  summary: string,
+  brief: BriefChanges
+): Promise<ChangeRequest> {
+  if (['queued', 'planning', 'cancelling'].includes(project.status)) {
+    throw new Error('Wait for the current run to finish before changing the brief');
+  }
+  if (!summary.trim()) throw new Error('Describe the change');
+
+  const request = await submitChangeRequest(planStore, project, summary.trim(), brief);
+  await queuePlanning(project.id);
+  return request;
+}
+
+/**
+ * Fork `parent` into a branch (see forkProject) and queue it, so the phases
+ * after the fork point are planned with the Decision Ledger overrides.
+ */
+export async function createBranch(parent: Project, options: ForkOptions): Promise<Project> {
+  const overrides = options.decisionOverrides.filter((d) => d.key.trim());
+  if (overrides.length === 0) {
+    throw new Error('A branch needs at least one decision override');
+  }
+
+  const branch = await forkProject(planStore, parent, { ...options, decisionOverrides: overrides });
+  await queuePlanning(branch.id);
+  return branch;
+}
+
+/**
+ * Branches forked from a project, oldest first.
+ */
+export async function listBranches(projectId: string): Promise<Project[]> {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('parent_project_id', projectId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+function assertMatchesSchema(type: PhaseType, output: unknown): void {
+  const agent = AGENT_PHASES.find((p) => p.type === type);
+  const validation = validateJSON(output, agent?.schema ?? {});
+  if (!validation.valid) {
+    throw new Error(`Edited output does not match the schema: ${validation.errors.join(', ')}`);
+  }
+}
+
+/**
+ * Progress to show for a project row: the worker's last snapshot, adjusted for
+ * states the worker doesn't report itself (queued, cancelling).
+ */
+export function progressFromProject(project: Project): OrchestrationProgress {
+  // Older snapshots predate some fields
+  const snapshot = { ...initialProgress(), ...project.progress };
+
+  switch (project.status) {
+    case 'queued':
+      return {
+        ...snapshot,
+        currentPhase: 'Waiting for a planning worker',
+        activePhases: [],
+        error: undefined,
+        cancelled: false
+      };
+    case 'cancelling':
+      return { ...snapshot, currentPhase: 'Cancelling' };
+    case 'awaiting_approval':
+      return { ...snapshot, currentPhase: 'Waiting for approval', activePhases: [] };
+    case 'cancelled':
+      return {
+        ...snapshot,
+        activePhases: [],
+        error: snapshot.error ?? 'Planning cancelled',
+        cancelled: true
+      };
+    default:
+      return snapshot;
+  }
+}
+
+/**
+ * Follow a project row through Supabase realtime. `onChange` gets the current
+ * row once the subscription is live (null if it doesn't exist), then every
+ * update. Returns an unsubscribe function.
+ */
+export function watchProject(
+  projectId: string,
+  onChange: (project: Project | null) => void
+): () => void {
+  const channel = supabase
+    .channel(`project-${projectId}`)
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'projects', filter: `id=eq.${projectId}` },
+      (payload) => onChange(payload.new as Project)
+    )
+    .subscribe(async (status) => {
+      // Read after subscribing so no update between the read and the subscription is lost
+      if (status !== 'SUBSCRIBED') return;
+      const { data } = await supabase
+        .from('projects')
+        .select('*')
+        .eq('id', projectId)
+        .maybeSingle();
+      onChange(data);
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
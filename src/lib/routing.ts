@@ -0,0 +1,71 @@
+import type { PhaseType } from './agents';
+import type { AIProvider } from './ai-client';
+import { PROVIDERS } from './providers';
+
+export type ModelRoute = {
+  provider: AIProvider;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+};
+
+/**
+ * Maps each phase to the provider/model that runs it. Phases without an entry
+ * use `default`; entries may override only some fields.
+ */
+export type RoutingConfig = {
+  default: ModelRoute;
+  phases?: Partial<Record<PhaseType, Partial<ModelRoute>>>;
+};
+
+// Model the proxy falls back to when a request names none
+export const DEFAULT_MODELS = Object.fromEntries(
+  Object.entries(PROVIDERS).map(([provider, adapter]) => [provider, adapter.defaultModel])
+) as Record<AIProvider, string>;
+
+/**
+ * Cheap model for the documentation-style phases, strong model for the phases
+ * whose mistakes propagate downstream (System, Data, Critic).
+ */
+export const DEFAULT_ROUTING: RoutingConfig = {
+  default: {
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    temperature: 0.2,
+    maxTokens: 4000
+  },
+  phases: {
+    system: { model: 'gpt-4o' },
+    data: { model: 'gpt-4o' },
+    api: { maxTokens: 8000 },
+    prompts: { maxTokens: 8000 },
+    critic: { model: 'gpt-4o', temperature: 0.1 },
+    techwriter: { model: 'gpt-4o-mini', maxTokens: 3000 }
+  }
+};
+
+/**
+ * Routing for a single provider using its default model for every phase.
+ */
+export function singleProviderRouting(provider: AIProvider): RoutingConfig {
+  return {
+    default: {
+      provider,
+      model: DEFAULT_MODELS[provider],
+      temperature: 0.2,
+      maxTokens: 4000
+    }
+  };
+}
+
+export function resolveRoute(config: RoutingConfig, phaseType: PhaseType): ModelRoute {
+  const override = config.phases?.[phaseType] ?? {};
+  const route = { ...config.default, ...override };
+
+  // Switching provider without naming a model must not inherit the other provider's model
+  if (override.provider && !override.model && override.provider !== config.default.provider) {
+    route.model = DEFAULT_MODELS[override.provider];
+  }
+
+  return route;
+}
@@ -0,0 +1,95 @@
+import type { AgentPhase, PhaseType } from './agents';
+import { validateJSON } from './ai-client';
+import { runQualityChecklist } from './quality-checklist';
+import type { CandidateScore, PhaseCandidate, PlanningPhase } from './supabase';
+
+/**
+ * Higher is better. Gets a schema-valid candidate and the phases it builds on.
+ */
+export type CandidateScorer = (
+  type: PhaseType,
+  output: unknown,
+  previousPhases: PlanningPhase[]
+) => number;
+
+export type SamplingOptions = {
+  // Candidates per phase; overrides projects.sample_counts
+  counts?: Partial<Record<PhaseType, number>>;
+  // Sampling temperature; higher than the routing default so candidates differ
+  temperature?: number;
+  // Defaults to richnessScore
+  score?: CandidateScorer;
+};
+
+export const DEFAULT_SAMPLING_TEMPERATURE = 0.7;
+
+// Each quality checklist fix a candidate would trigger costs this many points
+const CHECKLIST_PENALTY = 10;
+
+/**
+ * Default scorer: log2 of the number of list items and non-empty values in
+ * the output, so a Data model with more entities and columns, or a Strategy
+ * with more features and risks, outranks a thin one. Diminishing returns keep
+ * sheer length from dominating the checklist penalty.
+ */
+export const richnessScore: CandidateScorer = (_type, output) => Math.log2(1 + countContent(output));
+
+/**
+ * Score one candidate: schema validity gates it, every quality checklist fix
+ * it would trigger for its own phase costs CHECKLIST_PENALTY, and the scorer
+ * adds the rest.
+ */
+export function scoreCandidate(
+  phase: AgentPhase,
+  output: unknown,
+  previousPhases: PlanningPhase[],
+  scorer: CandidateScorer = richnessScore
+): CandidateScore {
+  const validation = validateJSON(output, phase.schema);
+  if (!validation.valid) {
+    return { total: null, schemaErrors: validation.errors, checklistFailures: [], custom: 0 };
+  }
+
+  const candidateRow = { phase_type: phase.type, output } as PlanningPhase;
+  const checklist = runQualityChecklist([
+    ...previousPhases.filter((p) => p.phase_type !== phase.type),
+    candidateRow
+  ]);
+  const checklistFailures = checklist.targetedRevisions
+    .filter((r) => r.phase === phase.type)
+    .map((r) => r.request);
+
+  const custom = scorer(phase.type, output, previousPhases);
+  return {
+    total: custom - CHECKLIST_PENALTY * checklistFailures.length,
+    schemaErrors: [],
+    checklistFailures,
+    custom
+  };
+}
+
+/**
+ * Mark the highest-scoring valid candidate as selected (the first one on a
+ * tie). Returns it, or undefined when no candidate is valid.
+ */
+export function selectBest(candidates: PhaseCandidate[]): PhaseCandidate | undefined {
+  let best: PhaseCandidate | undefined;
+  for (const candidate of candidates) {
+    const total = candidate.score?.total;
+    if (total == null) continue;
+    if (!best || total > (best.score?.total ?? -Infinity)) best = candidate;
+  }
+  for (const candidate of candidates) candidate.selected = candidate === best;
+  return best;
+}
+
+function countContent(value: unknown): number {
+  if (Array.isArray(value)) {
+    return value.length + value.reduce((n: number, item) => n + countContent(item), 0);
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).reduce((n: number, item) => n + countContent(item), 0);
+  }
+  if (typeof value === 'string') return value.trim() ? 1 : 0;
+  return value == null ? 0 : 1;
+}
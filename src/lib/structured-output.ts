@@ -0,0 +1,88 @@
+/**
+ * The subset of JSON Schema the phase schemas use.
+ */
+export type JSONSchema = {
+  type?: string | string[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: unknown[];
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  [keyword: string]: unknown;
+};
+
+// Keywords OpenAI strict mode accepts; the rest (minLength, minItems,
+// minimum, ...) are dropped and still enforced by validateJSON afterwards
+const STRICT_KEYWORDS = ['type', 'description', 'enum', 'const'];
+
+/**
+ * Rewrites a schema for OpenAI's strict `json_schema` response format: every
+ * object lists all its properties as required and forbids extra ones, and a
+ * property that was optional becomes nullable instead (see dropNullOptionals).
+ *
+ * Returns null when the schema can't be expressed in strict mode, e.g. a
+ * free-form `{ type: 'object' }` without properties.
+ */
+export function toStrictSchema(schema: JSONSchema): JSONSchema | null {
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) {
+    const strict = variants.map(toStrictSchema);
+    return strict.every((s): s is JSONSchema => s !== null) ? { anyOf: strict } : null;
+  }
+
+  const strict: JSONSchema = {};
+  for (const keyword of STRICT_KEYWORDS) {
+    if (schema[keyword] !== undefined) strict[keyword] = schema[keyword];
+  }
+
+  if (schema.type === 'object') {
+    if (!schema.properties || Object.keys(schema.properties).length === 0) return null;
+
+    const required = schema.required ?? [];
+    const properties: Record<string, JSONSchema> = {};
+    for (const [key, property] of Object.entries(schema.properties)) {
+      const converted = toStrictSchema(property);
+      if (!converted) return null;
+      properties[key] = required.includes(key)
+        ? converted
+        : { anyOf: [converted, { type: 'null' }] };
+    }
+    return {
+      ...strict,
+      properties,
+      required: Object.keys(properties),
+      additionalProperties: false
+    };
+  }
+
+  if (schema.type === 'array') {
+    if (!schema.items) return null;
+    const items = toStrictSchema(schema.items);
+    return items ? { ...strict, items } : null;
+  }
+
+  return strict.type || strict.enum || strict.const !== undefined ? strict : null;
+}
+
+/**
+ * Undoes toStrictSchema on a reply: removes the nulls a strict-mode model
+ * emits for properties the original schema leaves optional.
+ */
+export function dropNullOptionals(value: unknown, schema: JSONSchema): unknown {
+  if (Array.isArray(value)) {
+    return schema.items ? value.map((item) => dropNullOptionals(item, schema.items!)) : value;
+  }
+  if (value === null || typeof value !== 'object' || !schema.properties) {
+    return value;
+  }
+
+  const required = schema.required ?? [];
+  const result: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    const property = schema.properties[key];
+    if (field === null && property && !required.includes(key)) continue;
+    result[key] = property ? dropNullOptionals(field, property) : field;
+  }
+  return result;
+}
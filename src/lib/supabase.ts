@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
+import type { OrchestrationProgress } from './progress-events';
+import type { RoutingConfig } from './routing';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -9,6 +11,8 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+export type Decision = { key: string; value: string; reason: string };
+
 export type Project = {
   id: string;
   user_id?: string;
@@ -16,18 +20,139 @@ export type Project = {
   description: string;
   competitor_links?: string[];
   competitor_reviews?: string[];
-  status: 'draft' | 'planning' | 'completed';
+  // queued → planning (claimed by a worker) → completed | draft (failed) | cancelled;
+  // cancelling asks the worker to stop; awaiting_approval is a paused approval gate
+  status:
+    | 'draft'
+    | 'queued'
+    | 'planning'
+    | 'cancelling'
+    | 'awaiting_approval'
+    | 'completed'
+    | 'cancelled';
+  budget_usd?: number | null;
+  // Phases that pause the run for human review (approval mode)
+  approval_phases?: string[] | null;
+  // Best-of-N: candidates sampled per phase type (phases not listed take one)
+  sample_counts?: Record<string, number> | null;
+  // Providers/models tried in order when a call's provider keeps failing
+  fallback_chain?: Array<{ provider: string; model?: string }> | null;
+  // Provider/model per phase for runs in the worker; null means DEFAULT_ROUTING
+  routing?: RoutingConfig | null;
+  // Set on branches: the project forked from, the last phase copied from it,
+  // and the Decision Ledger entries that replace the parent's
+  parent_project_id?: string | null;
+  fork_point?: string | null;
+  decision_overrides?: Decision[] | null;
+  input_tokens?: number;
+  output_tokens?: number;
+  cost_usd?: number;
+  // Latest progress snapshot, written by the worker running the project
+  progress?: OrchestrationProgress | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type PlanningJob = {
+  id: string;
+  project_id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  worker_id?: string | null;
+  claimed_at?: string | null;
+  heartbeat_at?: string | null;
+  cancel_requested: boolean;
+  last_error?: string | null;
   created_at: string;
   updated_at: string;
 };
 
+export type PlanningRun = {
+  id: string;
+  project_id: string;
+  kind: 'plan' | 'resume' | 'regenerate' | 'change';
+  status: 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+  error?: string | null;
+  started_at: string;
+  completed_at?: string | null;
+};
+
+// Brief fields a change request can amend
+export type BriefField = 'description' | 'competitor_links' | 'competitor_reviews';
+
+export type ChangeRequest = {
+  id: string;
+  project_id: string;
+  // Run that applied it
+  run_id?: string | null;
+  // The user's description of what changed
+  summary: string;
+  // Only the brief fields that changed, with their old and new values
+  changes: Array<{ field: BriefField; before: unknown; after: unknown }>;
+  // pending → analyzed (impact known, phases marked stale) → applied
+  status: 'pending' | 'analyzed' | 'applied';
+  impacted_phases?: string[] | null;
+  impact_rationale?: string | null;
+  created_at: string;
+  applied_at?: string | null;
+};
+
+export type CandidateScore = {
+  // null when the candidate failed schema validation; it can't be selected
+  total: number | null;
+  schemaErrors: string[];
+  // Quality checklist fixes the candidate would trigger for its own phase
+  checklistFailures: string[];
+  // The configurable scoring function's result
+  custom: number;
+};
+
+// One of the outputs sampled for a phase in best-of-N mode
+export type PhaseCandidate = {
+  index: number;
+  model: string;
+  output: unknown;
+  // Set when the call itself failed, after retries and fallbacks
+  error?: string;
+  parseError?: string;
+  score: CandidateScore | null;
+  selected: boolean;
+};
+
 export type PlanningPhase = {
   id: string;
   project_id: string;
+  run_id?: string | null;
   phase_type: 'competitor' | 'strategy' | 'ux' | 'system' | 'data' | 'api' | 'ui' | 'prompts' | 'qa' | 'techwriter' | 'critic' | 'composer';
   output: any;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status:
+    | 'pending'
+    | 'processing'
+    | 'awaiting_approval'
+    | 'rejected'
+    | 'completed'
+    | 'stale'
+    // A revision that was rejected; the version it would have replaced stays current
+    | 'superseded'
+    | 'failed'
+    | 'cancelled';
   model_used?: string;
+  review_feedback?: string | null;
+  reviewed_at?: string | null;
+  // Set on rows holding a manual edit
+  edited_at?: string | null;
+  // Why this row revises an earlier version, if it does
+  revision_source?: 'checklist' | 'critic' | 'review' | null;
+  // Numbered when the row becomes current; is_current marks the version in use
+  version?: number | null;
+  is_current?: boolean;
+  // Every candidate when the phase was sampled best-of-N; `output` is the selected one
+  candidates?: PhaseCandidate[] | null;
+  input_tokens?: number;
+  output_tokens?: number;
+  cost_usd?: number;
   created_at: string;
   completed_at?: string;
 };
@@ -41,3 +166,36 @@ export type Prompt = {
   order: number;
   created_at: string;
 };
+
+export type LLMCallKind =
+  | 'initial'
+  | 'sample'
+  | 'repair'
+  | 'revision'
+  | 'check'
+  | 'impact'
+  | 'continuation';
+
+export type LLMCall = {
+  id: string;
+  project_id: string;
+  phase_id?: string | null;
+  phase_type: string;
+  attempt: number;
+  kind: LLMCallKind;
+  provider: string;
+  model?: string;
+  messages: Array<{ role: string; content: string }>;
+  response?: string;
+  // Provider stop reason; `truncated` when the response stopped at maxTokens
+  stop_reason?: string | null;
+  truncated?: boolean;
+  parse_error?: string;
+  validation_errors?: string[];
+  error?: string;
+  input_tokens?: number;
+  output_tokens?: number;
+  cost_usd?: number;
+  latency_ms: number;
+  created_at: string;
+};
@@ -0,0 +1,327 @@
+/**
+ * One adapter per provider: how to turn a normalized chat request into the
+ * provider's HTTP request, and its reply back into a normalized response.
+ * index.ts only ever talks to this interface.
+ */
+export interface ProviderAdapter {
+  // Models clients may request; the first entry is the default
+  models(): string[];
+  buildRequest(request: NormalizedRequest): { url: string; init: RequestInit };
+  parseResponse(response: Response): Promise<NormalizedResponse>;
+}
+
+export interface NormalizedRequest {
+  model: string;
+  messages: Array<{ role: string; content: string }>;
+  temperature: number;
+  topP: number;
+  maxTokens: number;
+  hints: ProviderHints;
+}
+
+/**
+ * Sent by the client adapters in src/lib/providers.ts; each adapter here
+ * applies the ones its provider understands and ignores the rest.
+ */
+export interface ProviderHints {
+  // Chat Completions `response_format`: JSON mode or a strict json_schema
+  response_format?: unknown;
+  // Gemini `responseMimeType`
+  response_mime_type?: string;
+  // Anthropic: answer by calling this tool, so its input_schema constrains the output
+  tool?: { name: string; input_schema: unknown };
+  // Handled in index.ts for every provider
+  forbid_markdown?: boolean;
+}
+
+export interface NormalizedResponse {
+  content: string;
+  model: string;
+  usage: { inputTokens: number; outputTokens: number };
+  // The provider's own stop_reason / finish_reason
+  stopReason: string | null;
+  // True when the reply stopped at maxTokens and is cut off
+  truncated: boolean;
+}
+
+/**
+ * Failure classes reported to the client. Only rate_limit, overloaded and
+ * server_error are worth retrying.
+ */
+export type ErrorCode =
+  | 'auth'
+  | 'rate_limit'
+  | 'overloaded'
+  | 'bad_request'
+  | 'content_filter'
+  | 'server_error';
+
+export class ProxyError extends Error {
+  constructor(
+    public code: ErrorCode,
+    message: string,
+    // From the provider's Retry-After header, when it sent one
+    public retryAfterSeconds: number | null = null
+  ) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+/**
+ * Classify a non-2xx provider response by status, with the body deciding
+ * the cases a status alone can't (quota vs. rate limit, content filter vs.
+ * malformed request).
+ */
+export async function errorFromResponse(provider: string, response: Response): Promise<ProxyError> {
+  const body = await response.text();
+  const message = `${provider} API error (${response.status}): ${body}`;
+  const retryAfter = parseRetryAfter(response.headers);
+  const status = response.status;
+
+  if (status === 401 || status === 403) return new ProxyError('auth', message);
+  if (status === 429) {
+    // OpenAI reports an exhausted quota as a 429, but waiting won't fix it
+    return body.includes('insufficient_quota')
+      ? new ProxyError('auth', message)
+      : new ProxyError('rate_limit', message, retryAfter);
+  }
+  // 529 is Anthropic's "overloaded"
+  if (status === 503 || status === 529) return new ProxyError('overloaded', message, retryAfter);
+  if (status >= 400 && status < 500) {
+    return /content[_ ]?(filter|policy)|safety|moderation/i.test(body)
+      ? new ProxyError('content_filter', message)
+      : new ProxyError('bad_request', message);
+  }
+  return new ProxyError('server_error', message, retryAfter);
+}
+
+// Seconds from `retry-after-ms` (OpenAI) or `retry-after` (seconds or an HTTP date)
+function parseRetryAfter(headers: Headers): number | null {
+  const ms = Number(headers.get('retry-after-ms'));
+  if (ms > 0) return ms / 1000;
+
+  const value = headers.get('retry-after');
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, (date - Date.now()) / 1000);
+}
+
+function contentFiltered(provider: string, reason: string): ProxyError {
+  return new ProxyError('content_filter', `${provider} blocked the response (${reason})`);
+}
+
+// A missing key is an auth failure; other missing settings are a proxy
+// misconfiguration (`bad_request`), which no retry or fallback can fix
+function requireEnv(name: string, code: ErrorCode = 'auth'): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new ProxyError(code, `Missing ${name}`);
+  }
+  return value;
+}
+
+function listEnv(name: string): string[] {
+  return (Deno.env.get(name) ?? '')
+    .split(',')
+    .map((m) => m.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Any Chat Completions API: OpenAI itself, Mistral, and self-hosted servers
+ * (Ollama, vLLM, LM Studio) that speak the same protocol.
+ */
+function chatCompletionsAdapter(config: {
+  // For error messages
+  name: string;
+  baseUrl: () => string;
+  // null when the server takes no key (local servers)
+  apiKey: () => string | null;
+  models: () => string[];
+}): ProviderAdapter {
+  return {
+    models: config.models,
+    buildRequest({ model, messages, temperature, topP, maxTokens, hints }) {
+      const apiKey = config.apiKey();
+      return {
+        url: `${config.baseUrl().replace(/\/+$/, '')}/chat/completions`,
+        init: {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model,
+            temperature,
+            top_p: topP,
+            max_tokens: maxTokens,
+            messages,
+            ...(hints.response_format ? { response_format: hints.response_format } : {}),
+          }),
+        },
+      };
+    },
+    async parseResponse(response) {
+      const data = await response.json();
+      const stopReason: string | null = data.choices[0].finish_reason ?? null;
+      if (stopReason === 'content_filter') throw contentFiltered(config.name, stopReason);
+      return {
+        content: data.choices[0].message.content,
+        model: data.model,
+        usage: {
+          inputTokens: data.usage?.prompt_tokens ?? 0,
+          outputTokens: data.usage?.completion_tokens ?? 0,
+        },
+        stopReason,
+        truncated: stopReason === 'length',
+      };
+    },
+  };
+}
+
+const anthropic: ProviderAdapter = {
+  models: () => ['claude-3-5-sonnet-latest', 'claude-3-5-haiku-latest', 'claude-3-7-sonnet-latest'],
+  buildRequest({ model, messages, temperature, topP, maxTokens, hints }) {
+    const systemMessage = messages.find((m) => m.role === 'system');
+    const tool = hints.tool;
+    return {
+      url: 'https://api.anthropic.com/v1/messages',
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': requireEnv('ANTHROPIC_API_KEY'),
+          'anthropic-version': '2023-06-01',
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: maxTokens,
+          temperature,
+          // Anthropic advises against setting both, so only when narrowed
+          ...(topP < 1 ? { top_p: topP } : {}),
+          system: systemMessage?.content || '',
+          messages: messages.filter((m) => m.role !== 'system'),
+          ...(tool
+            ? {
+                tools: [
+                  {
+                    name: tool.name,
+                    description: 'Submit the result. The input must match the schema exactly.',
+                    input_schema: tool.input_schema,
+                  },
+                ],
+                tool_choice: { type: 'tool', name: tool.name },
+              }
+            : {}),
+        }),
+      },
+    };
+  },
+  async parseResponse(response) {
+    const data = await response.json();
+    if (data.stop_reason === 'refusal') throw contentFiltered('Anthropic', data.stop_reason);
+    const blocks: Array<{ type: string; text?: string; input?: unknown }> = data.content ?? [];
+    // A forced tool call answers with the tool input rather than text
+    const toolUse = blocks.find((b) => b.type === 'tool_use');
+    return {
+      content: toolUse
+        ? JSON.stringify(toolUse.input)
+        : blocks.map((b) => b.text ?? '').join(''),
+      model: data.model,
+      usage: {
+        inputTokens: data.usage?.input_tokens ?? 0,
+        outputTokens: data.usage?.output_tokens ?? 0,
+      },
+      stopReason: data.stop_reason ?? null,
+      truncated: data.stop_reason === 'max_tokens',
+    };
+  },
+};
+
+// Finish reasons for a reply Gemini withheld
+const GEMINI_BLOCKED = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+// Gemini takes the system prompt separately and calls the assistant `model`
+const gemini: ProviderAdapter = {
+  models: () => ['gemini-2.0-flash', 'gemini-1.5-flash', 'gemini-1.5-pro'],
+  buildRequest({ model, messages, temperature, topP, maxTokens, hints }) {
+    const systemMessage = messages.find((m) => m.role === 'system');
+    return {
+      url: `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': requireEnv('GEMINI_API_KEY'),
+        },
+        body: JSON.stringify({
+          ...(systemMessage ? { systemInstruction: { parts: [{ text: systemMessage.content }] } } : {}),
+          contents: messages
+            .filter((m) => m.role !== 'system')
+            .map((m) => ({
+              role: m.role === 'assistant' ? 'model' : 'user',
+              parts: [{ text: m.content }],
+            })),
+          generationConfig: {
+            temperature,
+            topP,
+            maxOutputTokens: maxTokens,
+            ...(hints.response_mime_type ? { responseMimeType: hints.response_mime_type } : {}),
+          },
+        }),
+      },
+    };
+  },
+  async parseResponse(response) {
+    const data = await response.json();
+    const candidate = data.candidates?.[0];
+    const finishReason: string | null = candidate?.finishReason ?? null;
+    const blocked =
+      data.promptFeedback?.blockReason ??
+      (finishReason && GEMINI_BLOCKED.includes(finishReason) ? finishReason : null);
+    if (blocked) throw contentFiltered('Gemini', blocked);
+    const parts: Array<{ text?: string }> = candidate?.content?.parts ?? [];
+    return {
+      content: parts.map((p) => p.text ?? '').join(''),
+      model: data.modelVersion ?? '',
+      usage: {
+        inputTokens: data.usageMetadata?.promptTokenCount ?? 0,
+        outputTokens: data.usageMetadata?.candidatesTokenCount ?? 0,
+      },
+      stopReason: finishReason,
+      truncated: finishReason === 'MAX_TOKENS',
+    };
+  },
+};
+
+export const ADAPTERS: Record<string, ProviderAdapter> = {
+  openai: chatCompletionsAdapter({
+    name: 'OpenAI',
+    baseUrl: () => 'https://api.openai.com/v1',
+    apiKey: () => requireEnv('OPENAI_API_KEY'),
+    models: () => ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1'],
+  }),
+  anthropic,
+  gemini,
+  mistral: chatCompletionsAdapter({
+    name: 'Mistral',
+    baseUrl: () => 'https://api.mistral.ai/v1',
+    apiKey: () => requireEnv('MISTRAL_API_KEY'),
+    models: () => ['mistral-small-latest', 'mistral-large-latest', 'open-mistral-nemo'],
+  }),
+  // Self-hosted server, e.g. OPENAI_COMPATIBLE_BASE_URL=http://localhost:11434/v1 for Ollama
+  'openai-compatible': chatCompletionsAdapter({
+    name: 'OpenAI-compatible server',
+    baseUrl: () => requireEnv('OPENAI_COMPATIBLE_BASE_URL', 'bad_request'),
+    apiKey: () => Deno.env.get('OPENAI_COMPATIBLE_API_KEY') ?? null,
+    models: () => {
+      const models = listEnv('OPENAI_COMPATIBLE_MODELS');
+      if (models.length === 0) throw new ProxyError('bad_request', 'Missing OPENAI_COMPATIBLE_MODELS');
+      return models;
+    },
+  }),
+};
@@ -1,4 +1,12 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import {
+  ADAPTERS,
+  errorFromResponse,
+  ProxyError,
+  type ErrorCode,
+  type ProviderAdapter,
+  type ProviderHints,
+} from "./adapters.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,10 +15,44 @@ const corsHeaders = {
 };
 
 interface AIRequest {
-  provider: 'anthropic' | 'openai';
+  // A key of ADAPTERS
+  provider: string;
+  model?: string;
   messages: Array<{ role: string; content: string }>;
   temperature?: number;
+  topP?: number;
   maxTokens?: number;
+  providerHints?: ProviderHints;
+}
+
+const NO_MARKDOWN_RULE = 'Respond with the raw JSON only. Do not wrap it in markdown code fences.';
+
+// forbid_markdown works the same for every provider: one more system rule
+function applyForbidMarkdown(messages: AIRequest['messages']): AIRequest['messages'] {
+  const system = messages.find((m) => m.role === 'system');
+  if (!system) {
+    return [{ role: 'system', content: NO_MARKDOWN_RULE }, ...messages];
+  }
+  return messages.map((m) => (m === system ? { ...m, content: `${m.content}\n\n${NO_MARKDOWN_RULE}` } : m));
+}
+
+const ERROR_STATUS: Record<ErrorCode, number> = {
+  auth: 401,
+  rate_limit: 429,
+  overloaded: 503,
+  bad_request: 400,
+  content_filter: 422,
+  server_error: 502,
+};
+
+// Only an adapter's models may be requested by clients; the first is the default
+function resolveModel(adapter: ProviderAdapter, provider: string, model?: string): string {
+  const allowed = adapter.models();
+  if (!model) return allowed[0];
+  if (!allowed.includes(model)) {
+    throw new ProxyError('bad_request', `Model not allowed for ${provider}: ${model}`);
+  }
+  return model;
 }
 
 Deno.serve(async (req: Request) => {
@@ -22,103 +64,66 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { provider, messages, temperature = 0.2, maxTokens = 4000 }: AIRequest = await req.json();
-
-    if (provider === 'anthropic') {
-      const apiKey = Deno.env.get('ANTHROPIC_API_KEY');
-      if (!apiKey) {
-        throw new Error('Missing ANTHROPIC_API_KEY');
-      }
+    const {
+      provider,
+      model: requestedModel,
+      messages,
+      temperature = 0.2,
+      topP = 1,
+      maxTokens = 4000,
+      providerHints = {},
+    }: AIRequest = await req.json();
 
-      const systemMessage = messages.find(m => m.role === 'system');
-      const userMessages = messages.filter(m => m.role !== 'system');
-
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01'
-        },
-        body: JSON.stringify({
-          model: 'claude-3-5-sonnet-latest',
-          max_tokens: maxTokens,
-          temperature,
-          system: systemMessage?.content || '',
-          messages: userMessages
-        })
-      });
+    const adapter = Object.hasOwn(ADAPTERS, provider) ? ADAPTERS[provider] : undefined;
+    if (!adapter) {
+      throw new ProxyError('bad_request', `Unsupported provider: ${provider}`);
+    }
+    const model = resolveModel(adapter, provider, requestedModel);
 
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Anthropic API error: ${error}`);
-      }
+    const { url, init } = adapter.buildRequest({
+      model,
+      messages: providerHints.forbid_markdown ? applyForbidMarkdown(messages) : messages,
+      temperature,
+      topP,
+      maxTokens,
+      hints: providerHints,
+    });
+    const response = await fetch(url, init);
 
-      const data = await response.json();
-      return new Response(
-        JSON.stringify({
-          content: data.content[0].text,
-          model: data.model
-        }),
-        {
-          headers: {
-            ...corsHeaders,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
+    if (!response.ok) {
+      throw await errorFromResponse(provider, response);
     }
 
-    if (provider === 'openai') {
-      const apiKey = Deno.env.get('OPENAI_API_KEY');
-      if (!apiKey) {
-        throw new Error('Missing OPENAI_API_KEY');
-      }
-
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
+    return new Response(
+      JSON.stringify(await adapter.parseResponse(response)),
+      {
         headers: {
+          ...corsHeaders,
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
         },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          temperature,
-          messages
-        })
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`OpenAI API error: ${error}`);
       }
-
-      const data = await response.json();
-      return new Response(
-        JSON.stringify({
-          content: data.choices[0].message.content,
-          model: data.model
-        }),
-        {
-          headers: {
-            ...corsHeaders,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-    }
-
-    throw new Error(`Unsupported provider: ${provider}`);
+    );
   } catch (error) {
+    // Unclassified failures (network errors, unexpected reply shapes) are
+    // treated as transient
+    const proxyError = error instanceof ProxyError
+      ? error
+      : new ProxyError('server_error', error instanceof Error ? error.message : 'Unknown error');
+    const retryAfter = proxyError.retryAfterSeconds;
     return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      JSON.stringify({
+        error: proxyError.message,
+        code: proxyError.code,
+        retryAfterSeconds: retryAfter,
+      }),
       {
-        status: 500,
+        status: ERROR_STATUS[proxyError.code],
         headers: {
           ...corsHeaders,
           'Content-Type': 'application/json',
+          ...(retryAfter !== null ? { 'Retry-After': String(Math.ceil(retryAfter)) } : {}),
         },
       }
     );
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,62 @@
+/*
+  # LLM call trace log
+
+  1. New Tables
+    - `llm_calls` - one row per `callAI` invocation made by the orchestrator
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key) - Reference to parent project
+      - `phase_id` (uuid, foreign key, nullable) - planning_phases row the call belongs to
+      - `phase_type` (text) - Phase being run (strategy, data, critic, ...)
+      - `attempt` (integer) - 1-based attempt within the phase's repair loop
+      - `kind` (text) - initial, repair, revision, or check (revision review)
+      - `provider` (text) / `model` (text) - Provider requested and model that answered
+      - `messages` (jsonb) - Prompt messages sent
+      - `response` (text) - Raw model response
+      - `parse_error` (text) - JSON parse failure, if any
+      - `validation_errors` (jsonb) - Schema validation errors, if any
+      - `error` (text) - Transport/provider error when the call itself failed
+      - `latency_ms` (integer) - Wall-clock duration of the call
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS; public read/insert/update for demo, matching planning_phases
+*/
+
+CREATE TABLE IF NOT EXISTS llm_calls (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  phase_id uuid REFERENCES planning_phases(id) ON DELETE SET NULL,
+  phase_type text NOT NULL,
+  attempt integer NOT NULL DEFAULT 1,
+  kind text NOT NULL DEFAULT 'initial',
+  provider text NOT NULL,
+  model text,
+  messages jsonb NOT NULL,
+  response text,
+  parse_error text,
+  validation_errors jsonb,
+  error text,
+  latency_ms integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE llm_calls ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access to llm_calls"
+  ON llm_calls FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Public insert access to llm_calls"
+  ON llm_calls FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Public update access to llm_calls"
+  ON llm_calls FOR UPDATE
+  TO anon, authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_llm_calls_project_id ON llm_calls(project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_calls_phase_id ON llm_calls(phase_id);
@@ -0,0 +1,46 @@
+/*
+  # Token usage, cost and budget tracking
+
+  1. Schema Changes
+    - `projects`: add `budget_usd` (optional spend cap) and running totals
+      `input_tokens`, `output_tokens`, `cost_usd`
+    - `planning_phases`: add `input_tokens`, `output_tokens`, `cost_usd` for the
+      calls made while producing that phase row (including repairs/checks)
+    - `llm_calls`: add `input_tokens`, `output_tokens`, `cost_usd` per call
+
+  2. Notes
+    - Token counts come from the provider `usage` blocks returned by ai-proxy
+    - Cost is computed client-side from the price table in src/lib/pricing.ts
+    - A null `budget_usd` means no cap
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'budget_usd'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN budget_usd numeric(10, 4);
+    ALTER TABLE projects ADD COLUMN input_tokens integer DEFAULT 0;
+    ALTER TABLE projects ADD COLUMN output_tokens integer DEFAULT 0;
+    ALTER TABLE projects ADD COLUMN cost_usd numeric(12, 6) DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'planning_phases' AND column_name = 'cost_usd'
+  ) THEN
+    ALTER TABLE planning_phases ADD COLUMN input_tokens integer DEFAULT 0;
+    ALTER TABLE planning_phases ADD COLUMN output_tokens integer DEFAULT 0;
+    ALTER TABLE planning_phases ADD COLUMN cost_usd numeric(12, 6) DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'llm_calls' AND column_name = 'cost_usd'
+  ) THEN
+    ALTER TABLE llm_calls ADD COLUMN input_tokens integer DEFAULT 0;
+    ALTER TABLE llm_calls ADD COLUMN output_tokens integer DEFAULT 0;
+    ALTER TABLE llm_calls ADD COLUMN cost_usd numeric(12, 6) DEFAULT 0;
+  END IF;
+END $$;
@@ -0,0 +1,43 @@
+/*
+  # Server-side orchestration
+
+  1. Schema Changes
+    - `projects`: add `progress` (jsonb) – the latest OrchestrationProgress
+      snapshot written by the planning worker
+
+  2. Status Values
+    - `queued`: waiting for a worker to pick the project up (new runs and resumes)
+    - `cancelling`: the browser asked the worker running it to stop
+
+  3. Realtime
+    - Add `projects` to the `supabase_realtime` publication so the browser
+      can follow a run it did not start (phase lists, usage and errors are all
+      in the `progress` snapshot)
+
+  4. Notes
+    - Runs happen in `npm run worker`, not in the browser; closing the tab no
+      longer stops a run
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'progress'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN progress jsonb;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_projects_status_created
+  ON projects(status, created_at);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'projects'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE projects;
+  END IF;
+END $$;
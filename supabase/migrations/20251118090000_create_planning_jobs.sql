@@ -0,0 +1,119 @@
+/*
+  # Durable planning job queue
+
+  1. New Tables
+    - `planning_jobs` - one row per requested run (new plan or resume)
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key) - Project to plan
+      - `status` (text) - queued, running, completed, failed, cancelled
+      - `attempts` (integer) - Times a worker has claimed the job
+      - `max_attempts` (integer) - Claims allowed before the job fails for good
+      - `run_after` (timestamptz) - Not claimable before this (retry backoff)
+      - `worker_id` (text) - Worker holding the job while running
+      - `claimed_at` / `heartbeat_at` (timestamptz) - Lease; a running job whose
+        heartbeat is older than the stale timeout is reclaimed
+      - `cancel_requested` (boolean) - Set by the browser; the worker stops the run
+      - `last_error` (text) - Error from the most recent failed attempt
+      - `created_at` / `updated_at` (timestamptz)
+
+  2. Functions
+    - `claim_planning_job(worker_id, stale_seconds)` - atomically claims the
+      oldest runnable job (queued and due, or running with a stale heartbeat).
+      Before claiming it fails stale jobs that are out of attempts and marks
+      `processing` phases without a live job as `failed` so resume reruns them.
+
+  3. Security
+    - Enable RLS; public read/insert/update for demo, matching planning_phases
+
+  4. Notes
+    - At most one queued/running job per project (partial unique index)
+*/
+
+CREATE TABLE IF NOT EXISTS planning_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'queued',
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 3,
+  run_after timestamptz NOT NULL DEFAULT now(),
+  worker_id text,
+  claimed_at timestamptz,
+  heartbeat_at timestamptz,
+  cancel_requested boolean NOT NULL DEFAULT false,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE planning_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access to planning_jobs"
+  ON planning_jobs FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Public insert access to planning_jobs"
+  ON planning_jobs FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Public update access to planning_jobs"
+  ON planning_jobs FOR UPDATE
+  TO anon, authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_planning_jobs_active_project
+  ON planning_jobs(project_id)
+  WHERE status IN ('queued', 'running');
+CREATE INDEX IF NOT EXISTS idx_planning_jobs_status ON planning_jobs(status, run_after, created_at);
+
+CREATE OR REPLACE FUNCTION claim_planning_job(p_worker_id text, p_stale_seconds integer DEFAULT 120)
+RETURNS SETOF planning_jobs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  stale_before timestamptz := now() - make_interval(secs => p_stale_seconds);
+BEGIN
+  -- Dead workers' jobs that have used up their attempts fail instead of looping
+  UPDATE planning_jobs
+  SET status = 'failed',
+      last_error = COALESCE(last_error, 'Worker stopped sending heartbeats'),
+      updated_at = now()
+  WHERE status = 'running'
+    AND heartbeat_at < stale_before
+    AND attempts >= max_attempts;
+
+  -- Phases left in `processing` by a dead worker
+  UPDATE planning_phases ph
+  SET status = 'failed'
+  WHERE ph.status = 'processing'
+    AND ph.created_at < stale_before
+    AND NOT EXISTS (
+      SELECT 1 FROM planning_jobs j
+      WHERE j.project_id = ph.project_id
+        AND j.status = 'running'
+        AND j.heartbeat_at >= stale_before
+    );
+
+  RETURN QUERY
+  UPDATE planning_jobs j
+  SET status = 'running',
+      worker_id = p_worker_id,
+      attempts = j.attempts + 1,
+      claimed_at = now(),
+      heartbeat_at = now(),
+      updated_at = now()
+  WHERE j.id = (
+    SELECT c.id FROM planning_jobs c
+    WHERE (c.status = 'queued' AND c.run_after <= now())
+       OR (c.status = 'running' AND c.heartbeat_at < stale_before)
+    ORDER BY c.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_planning_job(text, integer) TO anon, authenticated;
@@ -0,0 +1,37 @@
+/*
+  # Human-in-the-loop approval gates
+
+  1. Schema Changes
+    - `projects`: add `approval_phases` (text[]) - phase types that pause the
+      run for review once produced; null or empty means no approval mode
+    - `planning_phases`: add `review_feedback` (text) and `reviewed_at`
+      (timestamptz) - the reviewer's decision on a gated phase
+
+  2. Status Values
+    - `projects.status` gains `awaiting_approval`: the run paused at a gate
+    - `planning_phases.status` gains `awaiting_approval` (output produced,
+      waiting for a reviewer) and `rejected` (reviewer sent it back with
+      `review_feedback`; the next run re-runs it in revision mode)
+
+  3. Notes
+    - Approving sets the row to `completed` (optionally with an edited,
+      schema-validated output) and queues a planning job to continue
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'approval_phases'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN approval_phases text[];
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'planning_phases' AND column_name = 'review_feedback'
+  ) THEN
+    ALTER TABLE planning_phases ADD COLUMN review_feedback text;
+    ALTER TABLE planning_phases ADD COLUMN reviewed_at timestamptz;
+  END IF;
+END $$;
@@ -0,0 +1,30 @@
+/*
+  # Manual phase edits and stale regeneration
+
+  1. Schema Changes
+    - `planning_phases`: add `edited_at` (timestamptz) - set on rows that hold
+      a manual edit of a phase's output
+
+  2. Status Values
+    - `planning_phases.status` gains `stale`: a completed output whose inputs
+      were edited since; the next run regenerates the phase
+
+  3. Security
+    - Public delete access to `prompts`, so prompts built from a stale Prompts
+      phase can be cleared before they are regenerated
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'planning_phases' AND column_name = 'edited_at'
+  ) THEN
+    ALTER TABLE planning_phases ADD COLUMN edited_at timestamptz;
+  END IF;
+END $$;
+
+CREATE POLICY "Public delete access to prompts"
+  ON prompts FOR DELETE
+  TO anon, authenticated
+  USING (true);
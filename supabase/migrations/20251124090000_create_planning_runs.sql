@@ -0,0 +1,132 @@
+/*
+  # Planning runs and phase versions
+
+  1. New Tables
+    - `planning_runs` - one row per orchestrator run of a project
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key) - Project the run planned
+      - `kind` (text) - plan (fresh run), resume, or regenerate (stale phases
+        after an edit)
+      - `status` (text) - running, paused, completed, failed, cancelled
+      - `error` (text) - Why the run failed
+      - `started_at` / `completed_at` (timestamptz)
+
+  2. Schema Changes
+    - `planning_phases`:
+      - `run_id` (uuid, foreign key) - Run that produced the row
+      - `revision_source` (text) - checklist, critic or review when the row is
+        a revision of an earlier version
+      - `version` (integer) - Per project and phase type, numbered when the row
+        becomes current; null for rows that never did (failed, rejected, ...)
+      - `is_current` (boolean) - The version the plan uses; at most one per
+        project and phase type, older versions are superseded
+
+  3. Functions
+    - `promote_planning_phase(phase_id)` - makes a row the current version of
+      its phase type and supersedes the previous one, atomically
+
+  4. Security
+    - Enable RLS on `planning_runs`; public read/insert/update for demo
+
+  5. Notes
+    - Existing projects are backfilled: the latest completed row per phase
+      type becomes current, completed rows are numbered in creation order
+*/
+
+CREATE TABLE IF NOT EXISTS planning_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  kind text NOT NULL DEFAULT 'plan',
+  status text NOT NULL DEFAULT 'running',
+  error text,
+  started_at timestamptz DEFAULT now(),
+  completed_at timestamptz
+);
+
+ALTER TABLE planning_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access to planning_runs"
+  ON planning_runs FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Public insert access to planning_runs"
+  ON planning_runs FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Public update access to planning_runs"
+  ON planning_runs FOR UPDATE
+  TO anon, authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_planning_runs_project_id ON planning_runs(project_id, started_at);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'planning_phases' AND column_name = 'run_id'
+  ) THEN
+    ALTER TABLE planning_phases ADD COLUMN run_id uuid REFERENCES planning_runs(id) ON DELETE SET NULL;
+    ALTER TABLE planning_phases ADD COLUMN revision_source text;
+    ALTER TABLE planning_phases ADD COLUMN version integer;
+    ALTER TABLE planning_phases ADD COLUMN is_current boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+-- Backfill versions and the current row for plans made before runs existed
+WITH numbered AS (
+  SELECT id,
+         row_number() OVER (PARTITION BY project_id, phase_type ORDER BY created_at) AS version,
+         row_number() OVER (PARTITION BY project_id, phase_type ORDER BY created_at DESC) AS newest
+  FROM planning_phases
+  WHERE status IN ('completed', 'stale')
+)
+UPDATE planning_phases ph
+SET version = numbered.version,
+    is_current = numbered.newest = 1
+FROM numbered
+WHERE ph.id = numbered.id
+  AND ph.version IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_planning_phases_current
+  ON planning_phases(project_id, phase_type)
+  WHERE is_current;
+CREATE INDEX IF NOT EXISTS idx_planning_phases_run_id ON planning_phases(run_id);
+
+CREATE OR REPLACE FUNCTION promote_planning_phase(p_phase_id uuid)
+RETURNS SETOF planning_phases
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target planning_phases%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM planning_phases WHERE id = p_phase_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Phase not found: %', p_phase_id;
+  END IF;
+
+  UPDATE planning_phases
+  SET is_current = false
+  WHERE project_id = target.project_id
+    AND phase_type = target.phase_type
+    AND is_current
+    AND id <> target.id;
+
+  RETURN QUERY
+  UPDATE planning_phases ph
+  SET is_current = true,
+      version = COALESCE(ph.version, (
+        SELECT COALESCE(MAX(v.version), 0) + 1
+        FROM planning_phases v
+        WHERE v.project_id = target.project_id
+          AND v.phase_type = target.phase_type
+      ))
+  WHERE ph.id = target.id
+  RETURNING ph.*;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION promote_planning_phase(uuid) TO anon, authenticated;
@@ -0,0 +1,29 @@
+/*
+  # Project branches
+
+  1. Schema Changes
+    - `projects`:
+      - `parent_project_id` (uuid, foreign key) - Project this one was forked
+        from; null for projects created from a brief
+      - `fork_point` (text) - Last phase type copied from the parent; later
+        phases are planned on the branch
+      - `decision_overrides` (jsonb) - Decision Ledger entries
+        ({key, value, reason}) that replace the parent's on the branch
+
+  2. Notes
+    - Deleting a parent keeps its branches; they become standalone projects
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'parent_project_id'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN parent_project_id uuid REFERENCES projects(id) ON DELETE SET NULL;
+    ALTER TABLE projects ADD COLUMN fork_point text;
+    ALTER TABLE projects ADD COLUMN decision_overrides jsonb NOT NULL DEFAULT '[]'::jsonb;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_projects_parent_project_id ON projects(parent_project_id);
@@ -0,0 +1,57 @@
+/*
+  # Change requests
+
+  1. New Tables
+    - `change_requests` - amendments to a planned project's brief
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, foreign key) - Project whose brief changed
+      - `run_id` (uuid, foreign key) - Run that analysed and applied it
+      - `summary` (text) - The user's description of the change
+      - `changes` (jsonb) - Changed brief fields: [{field, before, after}]
+      - `status` (text) - pending, analyzed (impacted phases marked stale),
+        applied (the run regenerating them completed)
+      - `impacted_phases` (text[]) - Phases the impact analysis re-ran,
+        including everything built on them
+      - `impact_rationale` (text) - Why those phases were affected
+      - `created_at` / `applied_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `change_requests`; public read/insert/update for demo
+
+  3. Notes
+    - A project has at most one change request that isn't applied; together
+      with `planning_runs` this is the project's history
+*/
+
+CREATE TABLE IF NOT EXISTS change_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  run_id uuid REFERENCES planning_runs(id) ON DELETE SET NULL,
+  summary text NOT NULL,
+  changes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  status text NOT NULL DEFAULT 'pending',
+  impacted_phases text[],
+  impact_rationale text,
+  created_at timestamptz DEFAULT now(),
+  applied_at timestamptz
+);
+
+ALTER TABLE change_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access to change_requests"
+  ON change_requests FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Public insert access to change_requests"
+  ON change_requests FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Public update access to change_requests"
+  ON change_requests FOR UPDATE
+  TO anon, authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_change_requests_project_id ON change_requests(project_id, created_at);
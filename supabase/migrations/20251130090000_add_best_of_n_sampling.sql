@@ -0,0 +1,32 @@
+/*
+  # Best-of-N sampling
+
+  1. Schema Changes
+    - `projects`:
+      - `sample_counts` (jsonb) - Candidates to sample per phase type, e.g.
+        {"strategy": 3, "data": 3}; phases not listed take a single sample
+    - `planning_phases`:
+      - `candidates` (jsonb) - Every candidate sampled for the row with its
+        score breakdown and whether it was selected; `output` holds the
+        selected one
+
+  2. Notes
+    - Candidate calls are traced in `llm_calls` with kind `sample`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'sample_counts'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN sample_counts jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'planning_phases' AND column_name = 'candidates'
+  ) THEN
+    ALTER TABLE planning_phases ADD COLUMN candidates jsonb;
+  END IF;
+END $$;
@@ -0,0 +1,29 @@
+/*
+  # Truncation tracing
+
+  1. Schema Changes
+    - `llm_calls`:
+      - `stop_reason` (text) - The provider's stop_reason / finish_reason
+      - `truncated` (boolean) - True when the response stopped at maxTokens
+
+  2. Notes
+    - A cut-off reply is continued with follow-up requests traced with kind
+      `continuation`; the pieces are stitched together before validation
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'llm_calls' AND column_name = 'stop_reason'
+  ) THEN
+    ALTER TABLE llm_calls ADD COLUMN stop_reason text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'llm_calls' AND column_name = 'truncated'
+  ) THEN
+    ALTER TABLE llm_calls ADD COLUMN truncated boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
@@ -0,0 +1,23 @@
+/*
+  # Provider fallback chain
+
+  1. Schema Changes
+    - `projects`:
+      - `fallback_chain` (jsonb) - Ordered `{provider, model}` entries a call
+        moves to once its routed provider's retryable failures are exhausted,
+        e.g. [{"provider": "anthropic", "model": "claude-3-5-sonnet-latest"}]
+
+  2. Notes
+    - `planning_phases.model_used` and `llm_calls.provider`/`model` record
+      whoever actually answered
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'fallback_chain'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN fallback_chain jsonb;
+  END IF;
+END $$;
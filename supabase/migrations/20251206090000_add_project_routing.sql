@@ -0,0 +1,24 @@
+/*
+  # Per-project model routing
+
+  1. Schema Changes
+    - `projects`:
+      - `routing` (jsonb) - The RoutingConfig (src/lib/routing.ts) the worker
+        runs the project with: a `default` {provider, model, temperature,
+        maxTokens} route and optional per-phase overrides. Null means the
+        worker's default routing
+
+  2. Notes
+    - Read by the worker each time it claims a job for the project, so
+      resumes, regenerations and change requests keep the same models
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'routing'
+  ) THEN
+    ALTER TABLE projects ADD COLUMN routing jsonb;
+  END IF;
+END $$;
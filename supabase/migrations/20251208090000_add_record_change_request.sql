@@ -0,0 +1,58 @@
+/*
+  # Atomic change request submission
+
+  1. Functions
+    - `record_change_request(p_project_id, p_summary, p_changes)` - writes
+      each change's `after` value to the project's brief and inserts the
+      pending `change_requests` row in one transaction, so a brief is never
+      amended without the change request that explains it (or vice versa)
+
+  2. Notes
+    - `p_changes` has the same shape as `change_requests.changes`:
+      [{field, before, after}] with field one of description,
+      competitor_links, competitor_reviews
+*/
+
+CREATE OR REPLACE FUNCTION record_change_request(
+  p_project_id uuid,
+  p_summary text,
+  p_changes jsonb
+)
+RETURNS SETOF change_requests
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  change jsonb;
+BEGIN
+  PERFORM 1 FROM projects WHERE id = p_project_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found: %', p_project_id;
+  END IF;
+
+  FOR change IN SELECT * FROM jsonb_array_elements(p_changes) LOOP
+    CASE change->>'field'
+      WHEN 'description' THEN
+        UPDATE projects SET description = change->>'after' WHERE id = p_project_id;
+      WHEN 'competitor_links' THEN
+        UPDATE projects
+        SET competitor_links = ARRAY(SELECT jsonb_array_elements_text(change->'after'))
+        WHERE id = p_project_id;
+      WHEN 'competitor_reviews' THEN
+        UPDATE projects
+        SET competitor_reviews = ARRAY(SELECT jsonb_array_elements_text(change->'after'))
+        WHERE id = p_project_id;
+      ELSE
+        RAISE EXCEPTION 'Not a brief field: %', change->>'field';
+    END CASE;
+  END LOOP;
+
+  UPDATE projects SET updated_at = now() WHERE id = p_project_id;
+
+  RETURN QUERY
+  INSERT INTO change_requests (project_id, summary, changes)
+  VALUES (p_project_id, p_summary, p_changes)
+  RETURNING *;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_change_request(uuid, text, jsonb) TO anon, authenticated;
@@ -0,0 +1,89 @@
+/*
+  # Release projects whose planning job dies out of attempts
+
+  1. Functions
+    - `claim_planning_job(worker_id, stale_seconds)` - replaced. When it fails a
+      stale job that has used up its attempts, it now also:
+      - closes the project's `running` planning_runs row as failed
+      - moves the project out of `queued`/`planning` to `draft`, or out of
+        `cancelling` to `cancelled`, with the job's error (and no active
+        phases) in its `progress` snapshot
+
+  2. Notes
+    - Without this the project stayed `planning` or `cancelling` with no job
+      left to finish it, and the browser showed a run in progress forever
+*/
+
+CREATE OR REPLACE FUNCTION claim_planning_job(p_worker_id text, p_stale_seconds integer DEFAULT 120)
+RETURNS SETOF planning_jobs
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  stale_before timestamptz := now() - make_interval(secs => p_stale_seconds);
+BEGIN
+  -- Dead workers' jobs that have used up their attempts fail instead of looping,
+  -- and take their project's run with them
+  WITH failed AS (
+    UPDATE planning_jobs
+    SET status = 'failed',
+        last_error = COALESCE(last_error, 'Worker stopped sending heartbeats'),
+        updated_at = now()
+    WHERE status = 'running'
+      AND heartbeat_at < stale_before
+      AND attempts >= max_attempts
+    RETURNING project_id, last_error
+  ),
+  closed_runs AS (
+    UPDATE planning_runs r
+    SET status = 'failed',
+        error = f.last_error,
+        completed_at = now()
+    FROM failed f
+    WHERE r.project_id = f.project_id
+      AND r.status = 'running'
+  )
+  UPDATE projects p
+  SET status = CASE WHEN p.status = 'cancelling' THEN 'cancelled' ELSE 'draft' END,
+      progress = COALESCE(p.progress, '{}'::jsonb) || jsonb_build_object(
+        'activePhases', '[]'::jsonb,
+        'error', f.last_error,
+        'cancelled', p.status = 'cancelling'
+      ),
+      updated_at = now()
+  FROM failed f
+  WHERE p.id = f.project_id
+    AND p.status IN ('queued', 'planning', 'cancelling');
+
+  -- Phases left in `processing` by a dead worker
+  UPDATE planning_phases ph
+  SET status = 'failed'
+  WHERE ph.status = 'processing'
+    AND ph.created_at < stale_before
+    AND NOT EXISTS (
+      SELECT 1 FROM planning_jobs j
+      WHERE j.project_id = ph.project_id
+        AND j.status = 'running'
+        AND j.heartbeat_at >= stale_before
+    );
+
+  RETURN QUERY
+  UPDATE planning_jobs j
+  SET status = 'running',
+      worker_id = p_worker_id,
+      attempts = j.attempts + 1,
+      claimed_at = now(),
+      heartbeat_at = now(),
+      updated_at = now()
+  WHERE j.id = (
+    SELECT c.id FROM planning_jobs c
+    WHERE (c.status = 'queued' AND c.run_after <= now())
+       OR (c.status = 'running' AND c.heartbeat_at < stale_before)
+    ORDER BY c.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_planning_job(text, integer) TO anon, authenticated;